@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Card, createInitialDeck, standardDeckSpec } from '../../src/model/deck'
+import { Hand, canPlay, play, standardCardValue } from '../../src/model/hand'
+import { cardType, matchesColorOrType, nextPlayer, registerCardType } from '../../src/model/card_types'
+import { standardRules } from '../../src/model/rules'
+import { noShuffle, shuffleBuilder } from '../utils/shuffling'
+
+registerCardType('SKIP ALL', {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: hand => hand,
+  points: () => 20
+})
+
+registerCardType('WILD SWAP HANDS', {
+  wild: true,
+  playable: () => true,
+  effect: (hand, { player, target }) => {
+    const hands = [...hand.hands]
+    ;[hands[player], hands[target!]] = [hands[target!], hands[player]]
+    return { ...hand, hands, playerInTurn: nextPlayer(hand) }
+  },
+  points: () => 40,
+  targeted: () => true
+})
+
+registerCardType('WILD SHUFFLE HANDS', {
+  wild: true,
+  playable: () => true,
+  effect: hand => {
+    const hands: Card[][] = hand.hands.map(() => [])
+    hand._shuffler(hand.hands.flat()).forEach((card, i) => hands[nextPlayer(hand, i + 1)].push(card))
+    return { ...hand, hands, playerInTurn: nextPlayer(hand) }
+  },
+  points: () => 40
+})
+
+const deck = {
+  ...standardDeckSpec,
+  actions: { ...standardDeckSpec.actions, 'SKIP ALL': 1 },
+  wilds: { ...standardDeckSpec.wilds, 'WILD SWAP HANDS': 1, 'WILD SHUFFLE HANDS': 1 }
+}
+
+describe("Card type registry", () => {
+  it("has the built-in card types registered", () => {
+    expect(cardType('DRAW').penalty!(standardRules)).toEqual(2)
+    expect(cardType('WILD DRAW').wild).toBeTruthy()
+    expect(standardCardValue({ type: 'NUMBERED', color: 'RED', number: 8 })).toEqual(8)
+  })
+  it("rejects registering a type twice", () => {
+    expect(() => registerCardType('SKIP', cardType('SKIP'))).toThrow()
+  })
+  it("rejects unknown types", () => {
+    expect(() => cardType('DRAW EVERYTHING')).toThrow()
+  })
+  it("lets custom cards into a deck through its specification", () => {
+    const cards = createInitialDeck(deck)
+    expect(cards.length).toEqual(114)
+    expect(cards.filter(c => c.type === 'SKIP ALL').map(c => c.color)).toEqual(['RED', 'YELLOW', 'GREEN', 'BLUE'])
+    expect(cards.filter(c => c.type === 'WILD SWAP HANDS')).toEqual([{ type: 'WILD SWAP HANDS' }])
+  })
+  it("scores custom cards by their registered points", () => {
+    expect(standardCardValue({ type: 'WILD SWAP HANDS' })).toEqual(40)
+  })
+
+  describe("custom cards in play", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      const shuffler = shuffleBuilder()
+        .discard()
+          .is({ type: 'NUMBERED', color: 'RED', number: 6 })
+        .hand(0)
+          .is({ type: 'SKIP ALL' }, { type: 'WILD SWAP HANDS' }, { type: 'WILD SHUFFLE HANDS' })
+        .build()
+      hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: { deck } })
+    })
+
+    it("uses the playability rule of the type", () => {
+      expect(canPlay(0, hand)).toBeTruthy()
+      expect(canPlay(0, { ...hand, currentColor: 'BLUE' })).toBeFalsy()
+    })
+    it("lets the player in turn play again after Skip All", () => {
+      hand = play(0, undefined, hand)
+      expect(hand.playerInTurn).toEqual(0)
+      expect(hand.discardPile[hand.discardPile.length - 1].type).toEqual('SKIP ALL')
+    })
+    it("swaps hands with the target of Wild Swap Hands", () => {
+      const theirs = hand.hands[2]
+      const mine = hand.hands[0].filter((_, i) => i !== 1)
+      hand = play(1, 'GREEN', hand, 2)
+      expect(hand.hands[0]).toEqual(theirs)
+      expect(hand.hands[2]).toEqual(mine)
+      expect(hand.currentColor).toEqual('GREEN')
+      expect(hand.playerInTurn).toEqual(1)
+    })
+    it("requires a color and a target for Wild Swap Hands", () => {
+      expect(() => play(1, undefined, hand, 2)).toThrow()
+      expect(() => play(1, 'GREEN', hand)).toThrow()
+    })
+    it("deals all hands anew after Wild Shuffle Hands", () => {
+      hand = play(2, 'BLUE', { ...hand, _shuffler: noShuffle })
+      expect(hand.hands.map(h => h.length)).toEqual([6, 7, 7, 7])
+    })
+  })
+})
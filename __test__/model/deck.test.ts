@@ -68,3 +68,47 @@ describe("Initial deck", () => {
     expect(initialDeck.length).toEqual(108)
   })
 })
+
+describe("Multiple decks", () => {
+  const doubleDeck = deck.createInitialDeck(deck.standardDeckSpec, 2)
+  it("contains the cards of every deck", () => {
+    expect(doubleDeck.length).toEqual(216)
+    expect(R.count(R.whereEq({type: 'WILD DRAW'}), doubleDeck)).toEqual(8)
+    expect(R.count(R.whereEq({number: 0, color: 'RED'}), doubleDeck)).toEqual(2)
+  })
+})
+
+describe("Deck specification", () => {
+  it("builds the standard deck by default", () => {
+    expect(deck.createInitialDeck(deck.standardDeckSpec)).toEqual(createInitialDeck())
+  })
+  it("survives being stored as JSON", () => {
+    const spec = JSON.parse(JSON.stringify(deck.standardDeckSpec))
+    expect(deck.createInitialDeck(spec)).toEqual(createInitialDeck())
+  })
+  it("can leave out the zeros", () => {
+    const noZeros = deck.createInitialDeck({...deck.standardDeckSpec, numbers: [{from: 1, to: 9, copies: 2}]})
+    expect(R.count(R.whereEq({number: 0}), noZeros)).toEqual(0)
+    expect(noZeros.length).toEqual(104)
+  })
+  it("can build a mini deck", () => {
+    const mini = deck.createInitialDeck({
+      colors: ['RED', 'BLUE'],
+      numbers: [{from: 1, to: 5, copies: 1}],
+      actions: {SKIP: 1},
+      wilds: {WILD: 2}
+    })
+    expect(mini.length).toEqual(14)
+    expect(R.count(R.whereEq({type: 'SKIP', color: 'BLUE'}), mini)).toEqual(1)
+    expect(R.count(R.whereEq({color: 'GREEN'}), mini)).toEqual(0)
+  })
+  it("can add extra wild cards", () => {
+    const extraWilds = deck.createInitialDeck({...deck.standardDeckSpec, wilds: {WILD: 8, 'WILD DRAW': 4}})
+    expect(R.count(R.whereEq({type: 'WILD'}), extraWilds)).toEqual(8)
+    expect(R.count(R.whereEq({type: 'WILD DRAW'}), extraWilds)).toEqual(4)
+  })
+  it("rejects invalid ranges and counts", () => {
+    expect(() => deck.createInitialDeck({...deck.standardDeckSpec, numbers: [{from: 5, to: 1, copies: 1}]})).toThrow()
+    expect(() => deck.createInitialDeck({...deck.standardDeckSpec, wilds: {WILD: -1}})).toThrow()
+  })
+})
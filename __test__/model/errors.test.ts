@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createGame, createHand } from '../utils/test_adapter'
+import { Hand, draw, pass, play, sayUno, tryApplyMove } from '../../src/model/hand'
+import { tryApplyGameMove } from '../../src/model/uno'
+import { GameOverError, IllegalActionError, IllegalPlayError, InvalidPlayerError, InvalidSetupError, UnoError, attempt } from '../../src/model/errors'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const builder = shuffleBuilder()
+  .discard().is({type: 'NUMBERED', color: 'BLUE', number: 6})
+  .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 3}, {type: 'NUMBERED', color: 'RED', number: 4})
+
+const caught = (action: () => unknown): unknown => {
+  try {
+    action()
+  } catch (error) {
+    return error
+  }
+  throw new Error('Nothing was thrown')
+}
+
+describe("Errors", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+  })
+
+  it("tells which card could not be played and why", () => {
+    const error = caught(() => play(1, undefined, hand))
+    expect(error).toBeInstanceOf(IllegalPlayError)
+    expect(error).toMatchObject({player: 0, card: hand.hands[0][1], rejection: {reason: 'numberMismatch'}})
+  })
+  it("tells that the hand is over", () => {
+    const over = {...hand, playerInTurn: undefined}
+    expect(caught(() => draw(over))).toBeInstanceOf(GameOverError)
+    expect(caught(() => play(0, undefined, over))).toBeInstanceOf(GameOverError)
+  })
+  it("tells which player index is invalid", () => {
+    const error = caught(() => sayUno(4, hand))
+    expect(error).toBeInstanceOf(InvalidPlayerError)
+    expect(error).toMatchObject({player: 4})
+  })
+  it("tells which action is not allowed", () => {
+    expect(caught(() => pass(hand))).toMatchObject({action: 'pass', player: 0})
+    expect(caught(() => pass(hand))).toBeInstanceOf(IllegalActionError)
+  })
+  it("tells that a game cannot be set up", () => {
+    expect(caught(() => createGame({players: ['a']}))).toBeInstanceOf(InvalidSetupError)
+    expect(caught(() => createHand({players: ['a'], dealer: 0}))).toBeInstanceOf(InvalidSetupError)
+  })
+  it("are all engine errors, with their own names", () => {
+    const error = caught(() => play(1, undefined, hand)) as Error
+    expect(error).toBeInstanceOf(UnoError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toEqual('IllegalPlayError')
+    expect(error.message).toEqual('Illegal play: RED 4 matches neither the color BLUE nor the number 6')
+  })
+})
+
+describe("Results", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+  })
+
+  it("hold the new state of a legal move", () => {
+    expect(tryApplyMove(hand, {type: 'play', cardIdx: 0})).toEqual({ok: true, value: play(0, undefined, hand)})
+  })
+  it("hold the error of an illegal move", () => {
+    const result = tryApplyMove(hand, {type: 'play', cardIdx: 1})
+    expect(result.ok).toBeFalsy()
+    expect(!result.ok && result.error).toBeInstanceOf(IllegalPlayError)
+  })
+  it("hold the error of a move in a finished game", () => {
+    const game = {...createGame({players: ['a', 'b']}), currentHand: undefined}
+    const result = tryApplyGameMove(game, {type: 'draw'})
+    expect(!result.ok && result.error).toBeInstanceOf(GameOverError)
+  })
+  it("don't hide errors from outside the engine", () => {
+    expect(() => attempt(() => { throw new TypeError('bug') })).toThrow(TypeError)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { acceptPenalty, canPlay, canPlayAny, challenge, draw, Hand, play } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const guiltyShuffle = () => shuffleBuilder()
+  .discard()
+    .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+  .hand(0)
+    .is({type: 'WILD DRAW'}, {type: 'NUMBERED', color: 'BLUE', number: 3})
+  .build()
+
+const innocentShuffle = () => shuffleBuilder()
+  .discard()
+    .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+  .hand(0)
+    .is({type: 'WILD DRAW'})
+    .repeat(6).isnt({color: 'BLUE'})
+  .build()
+
+describe("Challenging a wild draw card", () => {
+  it("doesn't allow bluffing without the rule", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: guiltyShuffle()})
+    expect(canPlay(0, hand)).toBeFalsy()
+  })
+
+  describe("with the rule", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: guiltyShuffle(), rules: {challengeWildDraw: true}})
+    })
+    it("allows bluffing", () => {
+      expect(canPlay(0, hand)).toBeTruthy()
+    })
+    it("records the previous color and the hand of the offender", () => {
+      const rest = hand.hands[0].slice(1)
+      hand = play(0, 'RED', hand)
+      expect(hand.wildDrawChallenge).toEqual({offender: 0, previousColor: 'BLUE', offenderHand: rest, penalty: 4})
+    })
+    it("leaves the penalty pending for the next player", () => {
+      hand = play(0, 'RED', hand)
+      expect(hand.playerInTurn).toEqual(1)
+      expect(hand.pendingDraw).toEqual(4)
+      expect(hand.hands[1].length).toEqual(7)
+      expect(canPlayAny(hand)).toBeFalsy()
+    })
+    it("makes the offender draw 4 if the challenge succeeds", () => {
+      hand = challenge(play(0, 'RED', hand))
+      expect(hand.hands[0].length).toEqual(10)
+      expect(hand.hands[1].length).toEqual(7)
+      expect(hand.playerInTurn).toEqual(1)
+      expect(hand.pendingDraw).toEqual(0)
+      expect(hand.wildDrawChallenge).toBeUndefined()
+    })
+    it("makes the challenger draw 6 and lose the turn if the challenge fails", () => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: innocentShuffle(), rules: {challengeWildDraw: true}})
+      hand = challenge(play(0, 'RED', hand))
+      expect(hand.hands[0].length).toEqual(6)
+      expect(hand.hands[1].length).toEqual(13)
+      expect(hand.playerInTurn).toEqual(2)
+      expect(hand.wildDrawChallenge).toBeUndefined()
+    })
+    it("makes the victim draw 4 and lose the turn when accepting", () => {
+      hand = acceptPenalty(play(0, 'RED', hand))
+      expect(hand.hands[1].length).toEqual(11)
+      expect(hand.playerInTurn).toEqual(2)
+      expect(hand.wildDrawChallenge).toBeUndefined()
+    })
+    it("accepts the penalty when drawing", () => {
+      hand = draw(play(0, 'RED', hand))
+      expect(hand.hands[1].length).toEqual(11)
+      expect(hand.playerInTurn).toEqual(2)
+    })
+    it("can't be done without a wild draw card", () => {
+      expect(() => challenge(hand)).toThrow()
+      expect(() => acceptPenalty(hand)).toThrow()
+    })
+  })
+})
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { canPlay, canPlayAny, draw, drawUntilPlayable, fireLauncher, Hand, pass, play } from '../../src/model/hand'
+import { Card } from '../../src/model/deck'
+import { Shuffler } from '../../src/utils/random_utils'
+import { noShuffle, shuffleBuilder } from '../utils/shuffling'
+
+// Deals the given cards, then leaves every later shuffle in order
+const dealThenKeep = (cards: Card[]): Shuffler<Card> => {
+  let dealt = false
+  return cs => {
+    if (dealt) return noShuffle(cs)
+    dealt = true
+    return cards
+  }
+}
+
+describe("Drawing until playable", () => {
+  let builder = shuffleBuilder()
+  beforeEach(() => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 0})
+      .hand(0)
+        .is({type: 'NUMBERED', color: 'RED', number: 1})
+        .is({type: 'NUMBERED', color: 'YELLOW', number: 2})
+        .is({type: 'NUMBERED', color: 'RED', number: 3})
+        .is({type: 'NUMBERED', color: 'GREEN', number: 4})
+        .is({type: 'SKIP', color: 'RED'})
+        .is({type: 'REVERSE', color: 'GREEN'})
+        .is({type: 'DRAW', color: 'YELLOW'})
+      .drawPile()
+        .is({type: 'NUMBERED', color: 'RED', number: 5})
+        .is({type: 'NUMBERED', color: 'GREEN', number: 7})
+        .is({type: 'NUMBERED', color: 'BLUE', number: 9})
+  })
+
+  it("draws until a playable card turns up", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+    const { hand: result, drawn } = drawUntilPlayable(hand)
+    expect(drawn).toEqual(3)
+    expect(result.hands[0].length).toEqual(10)
+    expect(result.drawPile.length).toEqual(hand.drawPile.length - 3)
+  })
+  it("keeps the turn to play the drawn card", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+    expect(drawUntilPlayable(hand).hand.playerInTurn).toEqual(0)
+  })
+  it("is used by draw in the 'untilPlayable' draw mode", () => {
+    let hand: Hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {drawMode: 'untilPlayable'}})
+    hand = draw(hand)
+    expect(hand.hands[0].length).toEqual(10)
+    expect(hand.playerInTurn).toEqual(0)
+  })
+  it("reshuffles the discard pile when the draw pile runs out", () => {
+    const cards: Card[] = [
+      {type: 'NUMBERED', color: 'RED', number: 1},
+      {type: 'NUMBERED', color: 'RED', number: 2},
+      {type: 'NUMBERED', color: 'GREEN', number: 2},
+      {type: 'NUMBERED', color: 'BLUE', number: 5},
+      {type: 'NUMBERED', color: 'YELLOW', number: 3},
+    ]
+    let hand = createHand({players: ['a', 'b'], dealer: 1, shuffler: dealThenKeep(cards), cardsPerPlayer: 1})
+    hand = {...hand, discardPile: [{type: 'NUMBERED', color: 'GREEN', number: 8}, ...hand.discardPile]}
+    const { hand: result, drawn } = drawUntilPlayable(hand)
+    expect(drawn).toEqual(3)
+    expect(result.hands[0][3]).toEqual({type: 'NUMBERED', color: 'GREEN', number: 8})
+    expect(result.discardPile).toEqual([{type: 'NUMBERED', color: 'GREEN', number: 2}])
+    expect(result.playerInTurn).toEqual(0)
+  })
+  it("stops and passes the turn when both piles run out", () => {
+    const cards: Card[] = [
+      {type: 'NUMBERED', color: 'RED', number: 1},
+      {type: 'NUMBERED', color: 'RED', number: 2},
+      {type: 'NUMBERED', color: 'BLUE', number: 5},
+      {type: 'NUMBERED', color: 'GREEN', number: 3},
+      {type: 'NUMBERED', color: 'YELLOW', number: 4},
+    ]
+    const hand = createHand({players: ['a', 'b'], dealer: 1, shuffler: dealThenKeep(cards), cardsPerPlayer: 1})
+    const { hand: result, drawn } = drawUntilPlayable(hand)
+    expect(drawn).toEqual(2)
+    expect(result.drawPile).toEqual([])
+    expect(result.playerInTurn).toEqual(1)
+  })
+})
+
+describe("Drawing from an empty draw pile", () => {
+  const cards: Card[] = [
+    {type: 'NUMBERED', color: 'RED', number: 1},
+    {type: 'NUMBERED', color: 'RED', number: 2},
+    {type: 'NUMBERED', color: 'BLUE', number: 5},
+  ]
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    hand = {...createHand({players: ['a', 'b'], dealer: 1, shuffler: dealThenKeep(cards), cardsPerPlayer: 1}), drawPile: []}
+  })
+
+  it("reshuffles the discard pile first", () => {
+    hand = {...hand, discardPile: [{type: 'NUMBERED', color: 'GREEN', number: 8}, ...hand.discardPile]}
+    const result = draw(hand)
+    expect(result.hands[0]).toEqual([{type: 'NUMBERED', color: 'RED', number: 1}, {type: 'NUMBERED', color: 'GREEN', number: 8}])
+    expect(result.discardPile).toEqual([{type: 'NUMBERED', color: 'BLUE', number: 5}])
+  })
+  it("passes the turn when both piles are exhausted", () => {
+    const result = draw(hand)
+    expect(result.hands).toEqual(hand.hands)
+    expect(result.playerInTurn).toEqual(1)
+  })
+})
+
+describe("Firing the launcher", () => {
+  const cards: Card[] = [
+    {type: 'NUMBERED', color: 'RED', number: 1},
+    {type: 'NUMBERED', color: 'RED', number: 2},
+    {type: 'NUMBERED', color: 'GREEN', number: 2},
+    {type: 'NUMBERED', color: 'BLUE', number: 5},
+    {type: 'NUMBERED', color: 'YELLOW', number: 3},
+  ]
+  const numberOnTop = shuffleBuilder().discard().is({type: 'NUMBERED', color: 'BLUE', number: 4})
+
+  it("ejects the number of cards given by the randomizer", () => {
+    const bounds: number[] = []
+    const randomizer = (bound: number) => { bounds.push(bound); return 3 }
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: numberOnTop.build(), randomizer, rules: {drawMode: 'launcher'}})
+    const { hand: result, drawn } = fireLauncher(hand)
+    expect(drawn).toEqual(3)
+    expect(result.hands[0].length).toEqual(10)
+    expect(result.drawPile.length).toEqual(hand.drawPile.length - 3)
+    expect(bounds).toEqual([7])
+  })
+  it("may eject no cards at all", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: numberOnTop.build(), randomizer: () => 0, rules: {drawMode: 'launcher'}})
+    const { hand: result, drawn } = fireLauncher(hand)
+    expect(drawn).toEqual(0)
+    expect(result.hands[0]).toEqual(hand.hands[0])
+  })
+  it("passes the turn", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: numberOnTop.build(), randomizer: () => 2, rules: {drawMode: 'launcher'}})
+    expect(fireLauncher(hand).hand.playerInTurn).toEqual(1)
+  })
+  it("is used by draw in the 'launcher' draw mode", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: numberOnTop.build(), randomizer: () => 4, rules: {drawMode: 'launcher', launcherMax: 10}})
+    expect(draw(hand).hands[0].length).toEqual(11)
+  })
+  it("reshuffles the discard pile when the draw pile runs short", () => {
+    let hand = createHand({players: ['a', 'b'], dealer: 1, shuffler: dealThenKeep(cards), cardsPerPlayer: 1, randomizer: () => 3})
+    hand = {...hand, discardPile: [{type: 'NUMBERED', color: 'GREEN', number: 8}, ...hand.discardPile]}
+    const { hand: result, drawn } = fireLauncher(hand)
+    expect(drawn).toEqual(3)
+    expect(result.hands[0][3]).toEqual({type: 'NUMBERED', color: 'GREEN', number: 8})
+    expect(result.discardPile).toEqual([{type: 'NUMBERED', color: 'GREEN', number: 2}])
+  })
+  it("ejects the cards that are left when both piles run short", () => {
+    const hand = createHand({players: ['a', 'b'], dealer: 1, shuffler: dealThenKeep(cards), cardsPerPlayer: 1, randomizer: () => 5})
+    const { hand: result, drawn } = fireLauncher(hand)
+    expect(drawn).toEqual(2)
+    expect(result.drawPile).toEqual([])
+    expect(result.hands[0].length).toEqual(3)
+  })
+})
+
+describe("Playing or passing after drawing", () => {
+  let builder = shuffleBuilder()
+  beforeEach(() => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 0})
+      .hand(0)
+        .is({type: 'NUMBERED', color: 'BLUE', number: 1})
+  })
+
+  describe("with a playable drawn card", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      const shuffler = builder.drawPile().is({type: 'NUMBERED', color: 'BLUE', number: 5}).build()
+      hand = draw(createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: {explicitPass: true}}))
+    })
+    it("keeps the turn and records the drawn card", () => {
+      expect(hand.playerInTurn).toEqual(0)
+      expect(hand.drawnCardIdx).toEqual(7)
+    })
+    it("only allows the drawn card to be played", () => {
+      expect(canPlay(0, hand)).toBeFalsy()
+      expect(canPlay(7, hand)).toBeTruthy()
+      expect(() => play(0, undefined, hand)).toThrow()
+    })
+    it("ends the draw phase when the drawn card is played", () => {
+      hand = play(7, undefined, hand)
+      expect(hand.drawnCardIdx).toBeUndefined()
+      expect(hand.playerInTurn).toEqual(1)
+    })
+    it("allows declining to play the drawn card", () => {
+      hand = pass(hand)
+      expect(hand.drawnCardIdx).toBeUndefined()
+      expect(hand.playerInTurn).toEqual(1)
+      expect(hand.hands[0].length).toEqual(8)
+    })
+    it("doesn't allow drawing again", () => {
+      expect(() => draw(hand)).toThrow()
+    })
+  })
+
+  it("requires passing after drawing an unplayable card", () => {
+    const shuffler = builder.drawPile().is({type: 'NUMBERED', color: 'RED', number: 5}).build()
+    let hand = draw(createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: {explicitPass: true}}))
+    expect(hand.playerInTurn).toEqual(0)
+    expect(canPlayAny(hand)).toBeFalsy()
+    hand = pass(hand)
+    expect(hand.playerInTurn).toEqual(1)
+  })
+
+  it("doesn't allow passing without drawing", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {explicitPass: true}})
+    expect(() => pass(hand)).toThrow()
+  })
+})
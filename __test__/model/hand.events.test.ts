@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Hand, catchUnoFailure, draw, play, sayUno } from '../../src/model/hand'
+import { noShuffle, shuffleBuilder } from '../utils/shuffling'
+
+const since = (before: Hand, after: Hand) => after.events.slice(before.events.length)
+
+describe("Event log", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    const shuffler = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'SKIP', color: 'BLUE'}, {type: 'REVERSE', color: 'BLUE'}, {type: 'DRAW', color: 'BLUE'})
+        .is({type: 'WILD'}, {type: 'NUMBERED', color: 'BLUE', number: 3})
+      .build()
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler})
+  })
+
+  it("starts out empty", () => {
+    expect(hand.events).toEqual([])
+  })
+  it("records the start card", () => {
+    const shuffler = shuffleBuilder().discard().is({type: 'SKIP', color: 'RED'}).build()
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler})
+    expect(hand.events).toEqual([{type: 'PlayerSkipped', player: 0}])
+  })
+  it("records a played card", () => {
+    const next = play(4, undefined, hand)
+    expect(since(hand, next)).toEqual([{type: 'CardPlayed', player: 0, card: hand.hands[0][4]}])
+  })
+  it("records the players skipped", () => {
+    const next = play(0, undefined, hand)
+    expect(since(hand, next)).toEqual([
+      {type: 'CardPlayed', player: 0, card: hand.hands[0][0]},
+      {type: 'PlayerSkipped', player: 1}
+    ])
+  })
+  it("records a change of direction", () => {
+    const next = play(1, undefined, hand)
+    expect(since(hand, next)).toEqual([
+      {type: 'CardPlayed', player: 0, card: hand.hands[0][1]},
+      {type: 'DirectionReversed', direction: -1}
+    ])
+  })
+  it("records the penalty of a draw card", () => {
+    const next = play(2, undefined, hand)
+    expect(since(hand, next)).toEqual([
+      {type: 'CardPlayed', player: 0, card: hand.hands[0][2]},
+      {type: 'PenaltyDrawn', player: 1, cards: hand.drawPile.slice(0, 2)},
+      {type: 'PlayerSkipped', player: 1}
+    ])
+  })
+  it("records the color chosen for a wild card", () => {
+    const next = play(3, 'GREEN', hand)
+    expect(since(hand, next)).toEqual([
+      {type: 'CardPlayed', player: 0, card: hand.hands[0][3]},
+      {type: 'ColorChosen', player: 0, color: 'GREEN'}
+    ])
+  })
+  it("records a drawn card", () => {
+    const next = draw(hand)
+    expect(since(hand, next)).toEqual([{type: 'CardDrawn', player: 0, card: hand.drawPile[0]}])
+  })
+  it("records a reshuffle of the discard pile", () => {
+    const played = play(4, undefined, hand)
+    const next = draw({...played, drawPile: played.drawPile.slice(-1), _shuffler: noShuffle})
+    expect(since(played, next)).toEqual([
+      {type: 'CardDrawn', player: 1, card: played.drawPile[played.drawPile.length - 1]},
+      {type: 'DiscardReshuffled', count: 1}
+    ])
+  })
+  it("keeps the events of every action in order", () => {
+    const next = draw(play(4, undefined, hand))
+    expect(next.events.map(e => e.type)).toEqual(['CardPlayed', 'CardDrawn'])
+  })
+})
+
+describe("Event log at the end of a hand", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    const shuffler = shuffleBuilder({players: 4, cardsPerPlayer: 2})
+      .discard().is({type: 'NUMBERED', color: 'BLUE', number: 3})
+      .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 8}, {type: 'NUMBERED', color: 'BLUE', number: 5})
+      .build()
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, cardsPerPlayer: 2})
+  })
+
+  it("records saying 'UNO!'", () => {
+    const next = sayUno(0, hand)
+    expect(since(hand, next)).toEqual([{type: 'UnoDeclared', player: 0}])
+  })
+  it("records catching a player", () => {
+    const played = play(0, undefined, hand)
+    const next = catchUnoFailure({accuser: 2, accused: 0}, played)
+    expect(since(played, next)).toEqual([
+      {type: 'UnoCaught', accuser: 2, accused: 0},
+      {type: 'PenaltyDrawn', player: 0, cards: played.drawPile.slice(0, 4)}
+    ])
+  })
+  it("records the winner", () => {
+    const played = play(0, undefined, hand)
+    const next = play(0, undefined, {...played, playerInTurn: 0})
+    expect(since(played, next)).toEqual([
+      {type: 'CardPlayed', player: 0, card: hand.hands[0][1]},
+      {type: 'HandEnded', winner: 0}
+    ])
+  })
+})
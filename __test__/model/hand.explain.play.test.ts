@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Hand, draw, explainPlay, play } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Explaining a play", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    const shuffler = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'NUMBERED', color: 'BLUE', number: 3}, {type: 'NUMBERED', color: 'RED', number: 4})
+        .is({type: 'SKIP', color: 'GREEN'}, {type: 'WILD DRAW'}, {type: 'DRAW', color: 'BLUE'})
+      .build()
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: {explicitPass: true}})
+  })
+
+  it("gives no reason for a legal play", () => {
+    expect(explainPlay(0, hand)).toBeUndefined()
+  })
+  it("explains a number mismatch", () => {
+    expect(explainPlay(1, hand)).toEqual({reason: 'numberMismatch', card: hand.hands[0][1], currentColor: 'BLUE', topCard: hand.discardPile[0]})
+  })
+  it("explains a color mismatch", () => {
+    expect(explainPlay(2, hand)).toEqual({reason: 'colorMismatch', card: hand.hands[0][2], currentColor: 'BLUE', topCard: hand.discardPile[0]})
+  })
+  it("explains why a WILD DRAW is forbidden", () => {
+    expect(explainPlay(3, hand)).toEqual({reason: 'holdsCurrentColor', card: {type: 'WILD DRAW'}, currentColor: 'BLUE'})
+  })
+  it("explains an index out of range", () => {
+    expect(explainPlay(7, hand)).toEqual({reason: 'indexOutOfRange', cardIdx: 7, handSize: 7})
+    expect(explainPlay(-1, hand)?.reason).toEqual('indexOutOfRange')
+  })
+  it("explains that it is not the player's turn", () => {
+    expect(explainPlay(0, hand, 2)).toEqual({reason: 'notYourTurn', player: 2, playerInTurn: 0})
+  })
+  it("explains that the hand is over", () => {
+    expect(explainPlay(0, {...hand, playerInTurn: undefined})).toEqual({reason: 'handOver'})
+  })
+  it("explains that only the drawn card may be played", () => {
+    hand = draw(hand)
+    expect(explainPlay(0, hand)).toEqual({reason: 'notDrawnCard', card: hand.hands[0][0], drawnCardIdx: 7})
+  })
+  it("explains that a penalty must be drawn", () => {
+    expect(explainPlay(0, {...hand, pendingDraw: 2})).toEqual({reason: 'drawPending', card: hand.hands[0][0], pendingDraw: 2})
+  })
+  it("puts the reason in the error", () => {
+    expect(() => play(3, 'RED', hand)).toThrow("Illegal play: WILD DRAW cannot be played while holding a BLUE card")
+    expect(() => play(1, undefined, hand)).toThrow("Illegal play: RED 4 matches neither the color BLUE nor the number 6")
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Card, Color, createTwoSidedDeck, darkColors, flipCard } from '../../src/model/deck'
+import { Hand, flipScoring, play, score, topOfDiscard } from '../../src/model/hand'
+import { flipRules } from '../../src/model/rules'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Two-sided deck", () => {
+  const deck = createTwoSidedDeck()
+
+  it("has 112 cards", () => {
+    expect(deck.length).toEqual(112)
+  })
+  it("has a dark side on every card", () => {
+    expect(deck.every(c => c.back !== undefined)).toBeTruthy()
+    expect(deck.filter(c => c.back!.color !== undefined).every(c => darkColors.includes(c.back!.color!))).toBeTruthy()
+  })
+  it("turns a card over and back", () => {
+    const card = deck[40]
+    expect(flipCard(card)).toEqual({ ...card.back, back: { type: card.type, color: card.color, number: card.number } })
+    expect(flipCard(flipCard(card))).toEqual(card)
+  })
+  it("leaves one-sided cards alone", () => {
+    const card: Card = { type: 'SKIP', color: 'RED' }
+    expect(flipCard(card)).toEqual(card)
+  })
+})
+
+describe("UNO Flip", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    const shuffler = shuffleBuilder()
+      .discard()
+        .is({ type: 'NUMBERED', color: 'RED', number: 3 })
+      .hand(0)
+        .is({ type: 'FLIP' })
+      .build()
+    hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: flipRules })
+  })
+
+  it("starts on the light side", () => {
+    expect(hand.side).toEqual('light')
+    expect(hand.currentColor).toEqual('RED')
+  })
+
+  describe("playing a Flip card", () => {
+    let flipped: Hand = undefined as any
+    beforeEach(() => {
+      flipped = play(0, undefined, hand)
+    })
+    it("turns the game over to the dark side", () => {
+      expect(flipped.side).toEqual('dark')
+    })
+    it("turns over every hand", () => {
+      expect(flipped.hands[0]).toEqual(hand.hands[0].slice(1).map(flipCard))
+      expect(flipped.hands[1]).toEqual(hand.hands[1].map(flipCard))
+    })
+    it("turns over the draw pile and the discard pile", () => {
+      expect(flipped.drawPile).toEqual(hand.drawPile.map(flipCard))
+      expect(flipped.discardPile).toEqual([...hand.discardPile, hand.hands[0][0]].map(flipCard))
+    })
+    it("takes the color of the new top card", () => {
+      expect(flipped.currentColor).toEqual(topOfDiscard(flipped).color)
+      expect(darkColors).toContain(flipped.currentColor)
+    })
+    it("passes the turn on", () => {
+      expect(flipped.playerInTurn).toEqual(1)
+    })
+    it("turns back to the light side on the next Flip", () => {
+      const flip: Card = { type: 'FLIP', color: flipped.currentColor, back: { type: 'FLIP', color: 'GREEN' } }
+      const again = play(0, undefined, { ...flipped, hands: flipped.hands.map((h, i) => i === 1 ? [flip, ...h] : h) })
+      expect(again.side).toEqual('light')
+      expect(again.currentColor).toEqual('GREEN')
+      expect(again.hands[2]).toEqual(hand.hands[2])
+    })
+  })
+
+  it("changes a wild top card's color into its counterpart", () => {
+    const flip: Card = { type: 'FLIP', color: 'RED', back: { type: 'WILD' } }
+    hand = play(0, undefined, { ...hand, hands: hand.hands.map((h, i) => i === 0 ? [flip, ...h.slice(1)] : h) })
+    expect(hand.currentColor).toEqual('PINK')
+  })
+
+  describe("dark side cards", () => {
+    let dark: Hand = undefined as any
+    const give = (h: Hand, cards: Card[]): Hand =>
+      ({ ...h, hands: h.hands.map((cs, i) => i === h.playerInTurn ? [...cards, ...cs] : cs) })
+    beforeEach(() => {
+      dark = play(0, undefined, hand)
+    })
+
+    it("makes the next player draw five cards with a Draw Five", () => {
+      const cardsBefore = dark.hands[2].length
+      dark = play(0, undefined, give(dark, [{ type: 'DRAW FIVE', color: dark.currentColor }]))
+      expect(dark.hands[2].length).toEqual(cardsBefore + 5)
+      expect(dark.playerInTurn).toEqual(3)
+    })
+    it("keeps the turn with a Skip Everyone", () => {
+      dark = play(0, undefined, give(dark, [{ type: 'SKIP EVERYONE', color: dark.currentColor }]))
+      expect(dark.playerInTurn).toEqual(1)
+    })
+    it("makes the next player draw until they get the chosen color with a Wild Draw Color", () => {
+      const other: Color = darkColors.find(c => c !== dark.currentColor)!
+      const chosen: Color = darkColors.find(c => c !== dark.currentColor && c !== other)!
+      const cardsBefore = dark.hands[2].length
+      dark = play(0, chosen, { ...dark, hands: dark.hands.map((h, i) => i === 1 ? [{ type: 'WILD DRAW COLOR' }, { type: 'NUMBERED', color: other, number: 1 }] : h) })
+      const drawn = dark.hands[2].slice(cardsBefore)
+      expect(drawn[drawn.length - 1].color).toEqual(chosen)
+      expect(drawn.slice(0, -1).some(c => c.color === chosen)).toBeFalsy()
+      expect(dark.playerInTurn).toEqual(3)
+    })
+    it("only lets a wild card choose a color of the dark side", () => {
+      const wild = give(dark, [{ type: 'WILD' }])
+      expect(() => play(0, 'RED', wild)).toThrow("Cannot choose RED on the dark side")
+      expect(play(0, 'PINK', wild).currentColor).toEqual('PINK')
+    })
+    it("scores the cards by their dark side", () => {
+      const ended: Hand = {
+        ...dark,
+        hands: [[], [{ type: 'SKIP EVERYONE', color: 'PINK', back: { type: 'DRAW ONE', color: 'RED' } }], [], []],
+        playerInTurn: undefined
+      }
+      expect(score(ended)).toEqual(30)
+    })
+    it("values a WILD at 40 with the Flip scoring", () => {
+      const ended: Hand = { ...dark, hands: [[], [{ type: 'WILD', back: { type: 'WILD' } }], [], []], playerInTurn: undefined }
+      expect(score(ended)).toEqual(50)
+      expect(score(ended, flipScoring)).toEqual(40)
+    })
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { canJumpIn, draw, Hand, jumpIn, topOfDiscard } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Jumping in", () => {
+  let builder = shuffleBuilder()
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(2)
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6}, {type: 'NUMBERED', color: 'RED', number: 6})
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {jumpIn: true}})
+  })
+
+  it("is allowed with an identical card", () => {
+    expect(hand.playerInTurn).toEqual(0)
+    expect(canJumpIn(2, 0, hand)).toBeTruthy()
+  })
+  it("is not allowed with a card only matching the number", () => {
+    expect(canJumpIn(2, 1, hand)).toBeFalsy()
+    expect(() => jumpIn(2, 1, hand)).toThrow()
+  })
+  it("is not allowed without the rule", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+    expect(canJumpIn(2, 0, hand)).toBeFalsy()
+  })
+  it("is not allowed for non-existant players or cards", () => {
+    expect(canJumpIn(-1, 0, hand)).toBeFalsy()
+    expect(canJumpIn(4, 0, hand)).toBeFalsy()
+    expect(canJumpIn(2, 7, hand)).toBeFalsy()
+  })
+  it("places the card on the discard pile", () => {
+    const card = hand.hands[2][0]
+    hand = jumpIn(2, 0, hand)
+    expect(topOfDiscard(hand)).toEqual(card)
+    expect(hand.hands[2].length).toEqual(6)
+  })
+  it("continues play from the jumping player", () => {
+    hand = jumpIn(2, 0, hand)
+    expect(hand.playerInTurn).toEqual(3)
+  })
+  it("continues play from the jumping player after a skip", () => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'SKIP', color: 'BLUE'})
+      .hand(1)
+        .is({type: 'SKIP', color: 'BLUE'})
+    let hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {jumpIn: true}})
+    expect(hand.playerInTurn).toEqual(1)
+    hand = draw(hand)
+    hand = jumpIn(1, 0, hand)
+    expect(hand.playerInTurn).toEqual(3)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Hand, applyMove, canPlay, draw, legalMoves, legalMovesFor, play } from '../../src/model/hand'
+import { RuleSet } from '../../src/model/rules'
+import { Card } from '../../src/model/deck'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const players = ['a', 'b', 'c', 'd']
+const handWith = (rules: Partial<RuleSet> = {}) => createHand({
+  players, dealer: 3, cardsPerPlayer: 3, rules,
+  shuffler: shuffleBuilder({players: 4, cardsPerPlayer: 3})
+    .discard().is({type: 'NUMBERED', color: 'BLUE', number: 6})
+    .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 3}, {type: 'NUMBERED', color: 'RED', number: 4}, {type: 'WILD'})
+    .hand(2).is({type: 'NUMBERED', color: 'BLUE', number: 6})
+    .build()
+})
+
+describe("Legal moves", () => {
+  it("lists the playable cards, with every color for wild cards, and drawing", () => {
+    expect(legalMoves(handWith())).toEqual([
+      {type: 'play', cardIdx: 0},
+      {type: 'play', cardIdx: 2, color: 'RED'},
+      {type: 'play', cardIdx: 2, color: 'YELLOW'},
+      {type: 'play', cardIdx: 2, color: 'GREEN'},
+      {type: 'play', cardIdx: 2, color: 'BLUE'},
+      {type: 'draw'}
+    ])
+  })
+  it("agrees with canPlay", () => {
+    const hand = handWith()
+    const playable = hand.hands[0].map((_, i) => i).filter(i => canPlay(i, hand))
+    const played = legalMoves(hand).flatMap(m => m.type === 'play' ? [m.cardIdx] : [])
+    expect([...new Set(played)]).toEqual(playable)
+  })
+  it("lists only moves that can be applied", () => {
+    const hand = handWith()
+    legalMoves(hand).forEach(move => expect(() => applyMove(hand, move)).not.toThrow())
+  })
+  it("lists passing after drawing with explicit passing", () => {
+    const hand = draw(handWith({explicitPass: true}))
+    const moves = legalMoves(hand)
+    expect(moves).toContainEqual({type: 'pass'})
+    expect(moves).not.toContainEqual({type: 'draw'})
+    expect(moves.filter(m => m.type === 'play').every(m => m.type === 'play' && m.cardIdx === 3)).toBeTruthy()
+  })
+  it("lists the targets of a 7 under Seven-O", () => {
+    let hand = handWith({sevenO: true})
+    hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? [{type: 'NUMBERED', color: 'BLUE', number: 7}, ...h] : h)}
+    expect(legalMoves(hand).filter(m => m.type === 'play' && m.cardIdx === 0)).toEqual([
+      {type: 'play', cardIdx: 0, target: 1},
+      {type: 'play', cardIdx: 0, target: 2},
+      {type: 'play', cardIdx: 0, target: 3}
+    ])
+  })
+  it("lists playing cards of the same kind together under playMultiple", () => {
+    let hand = handWith({playMultiple: true})
+    hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? [...h, {type: 'NUMBERED', color: 'GREEN', number: 3}] : h)}
+    expect(legalMoves(hand)).toContainEqual({type: 'playMany', cardIdxs: [0, 3]})
+  })
+  it("lists every card of the same kind to be played last, as the last card sets the color", () => {
+    let hand = handWith({playMultiple: true})
+    const sixes: Card[] = [{type: 'NUMBERED', color: 'RED', number: 6}, {type: 'NUMBERED', color: 'GREEN', number: 6}]
+    hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? [...sixes, ...h] : h)}
+    const moves = legalMoves(hand).filter(m => m.type === 'playMany')
+    expect(moves).toHaveLength(2)
+    expect(moves).toContainEqual({type: 'playMany', cardIdxs: [0, 1]})
+    expect(moves).toContainEqual({type: 'playMany', cardIdxs: [1, 0]})
+    moves.forEach(move => expect(() => applyMove(hand, move)).not.toThrow())
+  })
+  it("lists cards of the same color and number once for every count", () => {
+    let hand = handWith({playMultiple: true})
+    const sixes: Card[] = [
+      {type: 'NUMBERED', color: 'RED', number: 6}, {type: 'NUMBERED', color: 'RED', number: 6}, {type: 'NUMBERED', color: 'GREEN', number: 6}
+    ]
+    hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? [...sixes, ...h] : h)}
+    const moves = legalMoves(hand).filter(m => m.type === 'playMany')
+    expect(moves.map(m => m.type === 'playMany' && m.cardIdxs)).toEqual([[2, 0], [0, 2], [0, 1], [0, 2, 1], [0, 1, 2]])
+    moves.forEach(move => expect(() => applyMove(hand, move)).not.toThrow())
+  })
+  it("lists wild cards played together once for every number of cards and color", () => {
+    let hand = handWith({playMultiple: true})
+    hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? [...h, ...Array.from({length: 11}, (): Card => ({type: 'WILD'}))] : h)}
+    const moves = legalMoves(hand).filter(m => m.type === 'playMany')
+    expect(moves).toHaveLength(11 * 4)
+    expect(moves).toContainEqual({type: 'playMany', cardIdxs: Array.from({length: 12}, (_, i) => i + 2), color: 'GREEN'})
+  })
+  it("lists challenging a WILD DRAW", () => {
+    let hand = handWith({challengeWildDraw: true})
+    hand = play(0, 'RED', {...hand, hands: hand.hands.map((h, i) => i === 0 ? [{type: 'WILD DRAW'}, ...h] : h)})
+    expect(legalMoves(hand)).toEqual([{type: 'challenge'}, {type: 'acceptPenalty'}, {type: 'draw'}])
+  })
+  it("lists the start colors to choose", () => {
+    const hand = createHand({
+      players, dealer: 3, rules: {startingWild: 'official'},
+      shuffler: shuffleBuilder().discard().is({type: 'WILD'}).build()
+    })
+    expect(legalMoves(hand).map(m => m.type === 'chooseStartColor' && m.color)).toEqual(['RED', 'YELLOW', 'GREEN', 'BLUE'])
+  })
+  it("lists nothing when the hand is over", () => {
+    expect(legalMoves({...handWith(), playerInTurn: undefined})).toEqual([])
+  })
+
+  describe("out of turn", () => {
+    it("lists jumping in", () => {
+      expect(legalMovesFor(2, handWith({jumpIn: true}))).toEqual([{type: 'jumpIn', player: 2, cardIdx: 0}])
+      expect(legalMovesFor(2, handWith())).toEqual([])
+    })
+    it("lists saying 'UNO!' with two cards", () => {
+      const hand = play(0, undefined, handWith())
+      expect(legalMovesFor(0, hand)).toEqual([{type: 'sayUno', player: 0}])
+    })
+    it("lists catching a player who failed to say 'UNO!'", () => {
+      let hand: Hand = play(0, undefined, handWith())
+      hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? h.slice(1) : h), unoCatchable: 0}
+      expect(legalMovesFor(2, hand)).toContainEqual({type: 'catchUno', accuser: 2, accused: 0})
+      expect(legalMoves(hand)).toContainEqual({type: 'catchUno', accuser: 1, accused: 0})
+      expect(legalMovesFor(0, hand)).not.toContainEqual(expect.objectContaining({type: 'catchUno'}))
+    })
+    it("rejects players outside the table", () => {
+      expect(() => legalMovesFor(4, handWith())).toThrow()
+    })
+  })
+})
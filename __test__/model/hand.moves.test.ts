@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createGame, createHand } from '../utils/test_adapter'
+import { Hand, Move, applyMove, catchUnoFailure, draw, play, sayUno } from '../../src/model/hand'
+import { applyGameMove, play as gamePlay } from '../../src/model/uno'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const builder = shuffleBuilder({players: 4, cardsPerPlayer: 2})
+  .discard().is({type: 'NUMBERED', color: 'BLUE', number: 3})
+  .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 8}, {type: 'WILD'})
+
+describe("Moves", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), cardsPerPlayer: 2})
+  })
+
+  it("plays a card", () => {
+    expect(applyMove(hand, {type: 'play', cardIdx: 0})).toEqual(play(0, undefined, hand))
+    expect(applyMove(hand, {type: 'play', cardIdx: 1, color: 'RED'})).toEqual(play(1, 'RED', hand))
+  })
+  it("draws a card", () => {
+    expect(applyMove(hand, {type: 'draw'})).toEqual(draw(hand))
+  })
+  it("says 'UNO!'", () => {
+    expect(applyMove(hand, {type: 'sayUno', player: 2})).toEqual(sayUno(2, hand))
+  })
+  it("catches a player", () => {
+    hand = play(0, undefined, hand)
+    expect(applyMove(hand, {type: 'catchUno', accuser: 1, accused: 0})).toEqual(catchUnoFailure({accuser: 1, accused: 0}, hand))
+  })
+  it("works on moves sent as JSON", () => {
+    const moves: Move[] = [{type: 'play', cardIdx: 1, color: 'GREEN'}, {type: 'draw'}, {type: 'sayUno', player: 0}]
+    const received: Move[] = JSON.parse(JSON.stringify(moves))
+    expect(received.reduce(applyMove, hand)).toEqual(moves.reduce(applyMove, hand))
+  })
+  it("rejects illegal moves", () => {
+    expect(() => applyMove(hand, {type: 'pass'})).toThrow()
+    expect(() => applyMove(hand, {type: 'play', cardIdx: 1})).toThrow()
+  })
+  it("rejects unknown moves", () => {
+    expect(() => applyMove(hand, {type: 'shout'} as unknown as Move)).toThrow()
+  })
+})
+
+describe("Game moves", () => {
+  it("apply to the current hand", () => {
+    const game = createGame({players: ['a', 'b', 'c', 'd'], shuffler: builder.build(), cardsPerPlayer: 2})
+    expect(applyGameMove(game, {type: 'draw'})).toEqual(gamePlay(draw, game))
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Hand, challenge, playMany } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Playing several cards", () => {
+  let builder = shuffleBuilder()
+  beforeEach(() => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'NUMBERED', color: 'BLUE', number: 7}, {type: 'NUMBERED', color: 'GREEN', number: 7})
+        .is({type: 'SKIP', color: 'BLUE'}, {type: 'SKIP', color: 'GREEN'})
+        .is({type: 'DRAW', color: 'BLUE'}, {type: 'DRAW', color: 'GREEN'})
+        .is({type: 'NUMBERED', color: 'YELLOW', number: 8})
+  })
+
+  describe("with the rule", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {playMultiple: true}})
+    })
+
+    it("plays cards of the same number at once", () => {
+      const cards = [hand.hands[0][0], hand.hands[0][1]]
+      hand = playMany([0, 1], undefined, hand)
+      expect(hand.hands[0].length).toEqual(5)
+      expect(hand.discardPile.slice(-2)).toEqual(cards)
+      expect(hand.playerInTurn).toEqual(1)
+    })
+    it("ends on the color of the last card", () => {
+      hand = playMany([0, 1], undefined, hand)
+      expect(hand.currentColor).toEqual('GREEN')
+    })
+    it("checks the first card against the normal rules", () => {
+      expect(() => playMany([1, 0], undefined, hand)).toThrow()
+    })
+    it("requires later cards to match the first", () => {
+      expect(() => playMany([0, 6], undefined, hand)).toThrow("Illegal play: YELLOW 8 is not the same kind of card as BLUE 7")
+      expect(() => playMany([2, 4], undefined, hand)).toThrow("Illegal play: BLUE DRAW is not the same kind of card as BLUE SKIP")
+    })
+    it("rejects playing the same card twice", () => {
+      expect(() => playMany([0, 0], undefined, hand)).toThrow("Illegal play: BLUE 7 cannot be played twice")
+    })
+    it("rejects cards outside the hand", () => {
+      expect(() => playMany([0, 7], undefined, hand)).toThrow("Illegal play: there is no card 7 in a hand of 7 cards")
+      expect(() => playMany([], undefined, hand)).toThrow("Illegal play: no card was given to play")
+    })
+    it("adds up SKIPs", () => {
+      hand = playMany([2, 3], undefined, hand)
+      expect(hand.playerInTurn).toEqual(3)
+    })
+    it("adds up DRAWs", () => {
+      const cardsBefore = hand.hands[1].length
+      hand = playMany([4, 5], undefined, hand)
+      expect(hand.hands[1].length).toEqual(cardsBefore + 4)
+      expect(hand.playerInTurn).toEqual(2)
+    })
+    it("only plays the card just drawn after drawing", () => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {playMultiple: true, explicitPass: true}})
+      hand = {...hand, drawnCardIdx: 0}
+      expect(() => playMany([0, 1], undefined, hand)).toThrow("Illegal play: only the card just drawn may be played, not GREEN 7")
+      hand = playMany([0], undefined, hand)
+      expect(hand.hands[0].length).toEqual(6)
+    })
+    it("makes the offender draw every WILD DRAW played at once when challenged", () => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {playMultiple: true, challengeWildDraw: true}})
+      hand = {...hand, hands: hand.hands.map((h, i) => i === 0 ? [{type: 'WILD DRAW'}, {type: 'WILD DRAW'}, ...h] : h)}
+      hand = playMany([0, 1], 'RED', hand)
+      expect(hand.pendingDraw).toEqual(8)
+      hand = challenge(hand)
+      expect(hand.hands[0].length).toEqual(15)
+      expect(hand.pendingDraw).toEqual(0)
+      expect(hand.playerInTurn).toEqual(1)
+    })
+    it("adds up DRAWs on a stack", () => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {playMultiple: true, stacking: true}})
+      hand = playMany([4, 5], undefined, hand)
+      expect(hand.pendingDraw).toEqual(4)
+      expect(hand.playerInTurn).toEqual(1)
+    })
+  })
+
+  describe("without the rule", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+    })
+
+    it("rejects several cards", () => {
+      expect(() => playMany([0, 1], undefined, hand)).toThrow()
+    })
+    it("plays a single card", () => {
+      hand = playMany([0], undefined, hand)
+      expect(hand.hands[0].length).toEqual(6)
+      expect(hand.playerInTurn).toEqual(1)
+    })
+  })
+})
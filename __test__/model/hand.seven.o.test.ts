@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Hand, checkUnoFailure, hasEnded, play, sayUno, winner } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Seven-O", () => {
+  let builder = shuffleBuilder()
+  beforeEach(() => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'NUMBERED', color: 'BLUE', number: 7}, {type: 'NUMBERED', color: 'BLUE', number: 0})
+  })
+
+  describe("playing a 7", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {sevenO: true}})
+    })
+    it("swaps hands with the chosen opponent", () => {
+      const theirs = hand.hands[2]
+      const mine = hand.hands[0].slice(1)
+      hand = play(0, undefined, hand, 2)
+      expect(hand.hands[0]).toEqual(theirs)
+      expect(hand.hands[2]).toEqual(mine)
+    })
+    it("moves the action to the next player", () => {
+      hand = play(0, undefined, hand, 2)
+      expect(hand.playerInTurn).toEqual(1)
+    })
+    it("requires a target", () => {
+      expect(() => play(0, undefined, hand)).toThrow()
+    })
+    it("requires the target to be an opponent", () => {
+      expect(() => play(0, undefined, hand, 0)).toThrow()
+      expect(() => play(0, undefined, hand, -1)).toThrow()
+      expect(() => play(0, undefined, hand, 4)).toThrow()
+    })
+    it("clears 'UNO!' declarations of the players swapping", () => {
+      hand = sayUno(0, hand)
+      hand = sayUno(2, hand)
+      hand = sayUno(3, hand)
+      hand = play(0, undefined, hand, 2)
+      expect([...hand.saidUno]).toEqual([3])
+    })
+    describe("with an opponent holding one card", () => {
+      const withHands = (h: Hand, mine: number): Hand =>
+        ({...h, hands: h.hands.map((cs, i) => i === 0 ? cs.slice(0, mine) : i === 2 ? cs.slice(0, 1) : cs)})
+
+      it("keeps the 'UNO!' of a player who played down to one card", () => {
+        hand = sayUno(0, withHands(hand, 2))
+        hand = play(0, undefined, hand, 2)
+        expect(hand.hands[0].length).toEqual(1)
+        expect(hand.saidUno.has(0)).toBeTruthy()
+        expect(checkUnoFailure({accuser: 1, accused: 0}, hand)).toBeFalsy()
+      })
+      it("still lets a player who played down to one card without 'UNO!' be caught", () => {
+        hand = play(0, undefined, withHands(hand, 2), 2)
+        expect(checkUnoFailure({accuser: 1, accused: 0}, hand)).toBeTruthy()
+      })
+      it("doesn't let a player who swapped down to one card be caught", () => {
+        hand = play(0, undefined, withHands(hand, 3), 2)
+        expect(hand.hands[0].length).toEqual(1)
+        expect(checkUnoFailure({accuser: 1, accused: 0}, hand)).toBeFalsy()
+      })
+    })
+  })
+
+  describe("playing a 0", () => {
+    it("rotates all hands in the direction of play", () => {
+      let hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {sevenO: true}})
+      const before = [hand.hands[0].filter((_, i) => i !== 1), hand.hands[1], hand.hands[2], hand.hands[3]]
+      hand = play(1, undefined, hand)
+      expect(hand.hands).toEqual([before[3], before[0], before[1], before[2]])
+      expect(hand.saidUno.size).toEqual(0)
+    })
+  })
+
+  it("doesn't take a target without the rule", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+    expect(() => play(0, undefined, hand, 2)).toThrow()
+    expect(play(0, undefined, hand).hands[0].length).toEqual(6)
+  })
+
+  it("ends the hand without swapping when the 7 is the last card", () => {
+    const shuffler = shuffleBuilder({players: 4, cardsPerPlayer: 1})
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'NUMBERED', color: 'BLUE', number: 7})
+      .build()
+    let hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, cardsPerPlayer: 1, rules: {sevenO: true}})
+    hand = play(0, undefined, hand, 2)
+    expect(hasEnded(hand)).toBeTruthy()
+    expect(winner(hand)).toEqual(0)
+    expect(hand.hands[2].length).toEqual(1)
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { canPlay, canPlayAny, draw, Hand, play } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Stacking draw cards", () => {
+  let builder = shuffleBuilder()
+  beforeEach(() => {
+    builder = shuffleBuilder()
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'DRAW', color: 'BLUE'})
+      .hand(1)
+        .is({type: 'DRAW', color: 'RED'}, {type: 'WILD DRAW'})
+        .repeat(5).isnt({type: ['DRAW', 'WILD DRAW']})
+      .hand(2)
+        .is({type: 'NUMBERED', color: 'GREEN', number: 1})
+        .repeat(6).isnt({type: ['DRAW', 'WILD DRAW']})
+  })
+
+  it("doesn't apply without the stacking rule", () => {
+    let hand: Hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build()})
+    hand = play(0, undefined, hand)
+    expect(hand.pendingDraw).toEqual(0)
+    expect(hand.hands[1].length).toEqual(9)
+    expect(hand.playerInTurn).toEqual(2)
+  })
+
+  describe("with the stacking rule", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), rules: {stacking: true}})
+      hand = play(0, undefined, hand)
+    })
+    it("makes the penalty pending instead of drawing", () => {
+      expect(hand.pendingDraw).toEqual(2)
+      expect(hand.hands[1].length).toEqual(7)
+    })
+    it("gives the turn to the player facing the penalty", () => {
+      expect(hand.playerInTurn).toEqual(1)
+    })
+    it("only allows draw cards to be played", () => {
+      expect(canPlay(0, hand)).toBeTruthy()
+      expect(canPlay(1, hand)).toBeTruthy()
+      for (let i = 2; i < 7; i++) {
+        expect(canPlay(i, hand)).toBeFalsy()
+      }
+    })
+    it("passes the accumulated penalty on", () => {
+      hand = play(0, undefined, hand)
+      expect(hand.pendingDraw).toEqual(4)
+      expect(hand.playerInTurn).toEqual(2)
+    })
+    it("allows a wild draw card on a draw card", () => {
+      hand = play(1, 'GREEN', hand)
+      expect(hand.pendingDraw).toEqual(6)
+      expect(hand.playerInTurn).toEqual(2)
+    })
+    it("doesn't allow a draw card on a wild draw card", () => {
+      hand = play(1, 'GREEN', hand)
+      expect(canPlay(0, hand)).toBeFalsy()
+    })
+    it("reports if the player can't stack", () => {
+      hand = play(0, undefined, hand)
+      expect(canPlayAny(hand)).toBeFalsy()
+    })
+    it("draws the whole stack and passes the turn", () => {
+      hand = play(0, undefined, hand)
+      const pileSize = hand.drawPile.length
+      hand = draw(hand)
+      expect(hand.hands[2].length).toEqual(11)
+      expect(hand.drawPile.length).toEqual(pileSize - 4)
+      expect(hand.pendingDraw).toEqual(0)
+      expect(hand.playerInTurn).toEqual(3)
+    })
+  })
+
+  it("settles the stack when going out on a draw card", () => {
+    const shuffler = shuffleBuilder({players: 4, cardsPerPlayer: 1})
+      .discard()
+        .is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0)
+        .is({type: 'DRAW', color: 'BLUE'})
+      .build()
+    let hand: Hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, cardsPerPlayer: 1, rules: {stacking: true}})
+    hand = play(0, undefined, hand)
+    expect(hand.playerInTurn).toBeUndefined()
+    expect(hand.hands[1].length).toEqual(3)
+    expect(hand.pendingDraw).toEqual(0)
+  })
+})
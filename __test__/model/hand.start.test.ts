@@ -1,6 +1,9 @@
 import { describe, it, expect, jest, afterEach } from '@jest/globals'
 import { createHand, createInitialDeck } from '../utils/test_adapter'
-import { Hand } from '../../src/model/hand'
+import { Hand, canPlayAny, chooseStartColor, draw } from '../../src/model/hand'
+import { Card } from '../../src/model/deck'
+import { flipRules } from '../../src/model/rules'
+import { Shuffler } from '../../src/utils/random_utils'
 import { shuffleBuilder } from '../utils/shuffling'
 import { deterministicShuffle, noShuffle, successiveShufflers } from '../utils/shuffling'
 
@@ -25,8 +28,8 @@ describe("Hand set up", () => {
   it("requires at least 2 players", () => {
     expect(() => createHand({ players: ['a'], dealer: 1 })).toThrow()
   })
-  it("allows at most 10 players", () => {
-    expect(() => createHand({ players: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11'], dealer: 1 })).toThrow()
+  it("allows at most 10 players per deck", () => {
+    expect(() => createHand({ players: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11'], dealer: 1, rules: { deckCount: 1 } })).toThrow()
   })
   it("selects dealer set in the properties", () => {
     expect(hand!.dealer).toBe(1)
@@ -84,6 +87,23 @@ describe("Hand set up", () => {
   })
 })
 
+describe("Big tables", () => {
+  const players = Array.from({length: 14}, (_, i) => `${i}`)
+  it("adds a deck for every 10 players by default", () => {
+    const hand = createHand({ players, dealer: 1 })
+    expect(hand.playerCount).toBe(14)
+    const dealt = hand.hands.reduce((sum, h) => sum + h.length, 0)
+    expect(hand.drawPile.length + hand.discardPile.length + dealt).toEqual(216)
+  })
+  it("allows as many players as the decks can seat", () => {
+    expect(() => createHand({ players, dealer: 1, rules: { deckCount: 2 } })).not.toThrow()
+    expect(() => createHand({ players: [...players, ...players], dealer: 1, rules: { deckCount: 2 } })).toThrow()
+  })
+  it("requires enough cards to deal", () => {
+    expect(() => createHand({ players: ['a', 'b', 'c', 'd'], dealer: 1, cardsPerPlayer: 27 })).toThrow()
+  })
+})
+
 describe("Before first action in hand", () => {
   it("begins with the player to the left of the dealer unless the top card is draw, reverse or skip", () => {
     const hand: Hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 1, shuffler: normalShuffle })
@@ -113,4 +133,58 @@ describe("Before first action in hand", () => {
     const hand: Hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 1, shuffler })
     expect(hand.hands[2].length).toBe(9)
   })
+  it("lets the dealer begin with two players if the top card is reverse", () => {
+    const shuffler = shuffleBuilder({ players: 2, cardsPerPlayer: 7 }).discard().is({ type: 'REVERSE' }).build()
+    const hand: Hand = createHand({ players: ['a', 'b'], dealer: 1, shuffler })
+    expect(hand.playerInTurn).toBe(1)
+  })
+  it("applies the effect of any other card type, such as a DRAW ONE in UNO Flip", () => {
+    const shuffler = shuffleBuilder().discard().is({ type: 'DRAW ONE' }).build()
+    const hand: Hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 1, shuffler, rules: flipRules })
+    expect(hand.hands[2].length).toBe(8)
+    expect(hand.playerInTurn).toBe(3)
+  })
+})
+
+describe("Official first card rules", () => {
+  it("shuffles a WILD DRAW back into the draw pile without redealing", () => {
+    const shuffled: number[] = []
+    const builder = shuffleBuilder().discard().is({ type: 'WILD DRAW' }).build()
+    const shuffler: Shuffler<Card> = cs => { shuffled.push(cs.length); return builder(cs) }
+    const hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: { startingWild: 'official' } })
+    expect(shuffled).toEqual([108, 80])
+    expect(hand.discardPile[0].type).not.toEqual('WILD DRAW')
+    expect(hand.drawPile).toContainEqual({ type: 'WILD DRAW' })
+  })
+
+  describe("with a WILD first card", () => {
+    const shuffler = shuffleBuilder().discard().is({ type: 'WILD' }).build()
+    const wildStart = () => createHand({ players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: { startingWild: 'official' } })
+
+    it("keeps the card and leaves the color to be chosen", () => {
+      const hand = wildStart()
+      expect(hand.discardPile).toEqual([{ type: 'WILD' }])
+      expect(hand.currentColor).toBeUndefined()
+      expect(hand.playerInTurn).toEqual(0)
+    })
+    it("doesn't allow playing or drawing before the color is chosen", () => {
+      const hand = wildStart()
+      expect(canPlayAny(hand)).toBeFalsy()
+      expect(() => draw(hand)).toThrow()
+    })
+    it("lets the first player choose the color", () => {
+      const hand = chooseStartColor('GREEN', wildStart())
+      expect(hand.currentColor).toEqual('GREEN')
+      expect(hand.playerInTurn).toEqual(0)
+    })
+    it("only lets the color be chosen once", () => {
+      const hand = chooseStartColor('GREEN', wildStart())
+      expect(() => chooseStartColor('RED', hand)).toThrow()
+    })
+  })
+
+  it("doesn't leave a color to be chosen for other first cards", () => {
+    const hand = createHand({ players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: normalShuffle, rules: { startingWild: 'official' } })
+    expect(() => chooseStartColor('GREEN', hand)).toThrow()
+  })
 })
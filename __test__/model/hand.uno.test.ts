@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHand } from '../utils/test_adapter'
+import { Hand, accuseUno, catchUnoFailure, checkUnoFailure, draw, play, sayUno } from '../../src/model/hand'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const builder = shuffleBuilder({players: 4, cardsPerPlayer: 2})
+  .discard().is({type: 'NUMBERED', color: 'BLUE', number: 3})
+  .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 8}, {type: 'SKIP', color: 'BLUE'})
+  .hand(1).is({type: 'NUMBERED', color: 'BLUE', number: 5}, {type: 'NUMBERED', color: 'GREEN', number: 1})
+
+describe('Saying "UNO!"', () => {
+  describe("going down to one card", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), cardsPerPlayer: 2})
+    })
+
+    it("lets the other players catch a player who doesn't say it", () => {
+      hand = play(0, undefined, hand)
+      expect(checkUnoFailure({accuser: 2, accused: 0}, hand)).toBeTruthy()
+    })
+    it("accepts a declaration made before the play", () => {
+      hand = play(0, undefined, sayUno(0, hand))
+      expect(checkUnoFailure({accuser: 2, accused: 0}, hand)).toBeFalsy()
+    })
+    it("accepts a declaration made after the play", () => {
+      hand = sayUno(0, play(0, undefined, hand))
+      expect(checkUnoFailure({accuser: 2, accused: 0}, hand)).toBeFalsy()
+    })
+    it("lets the other players catch a player who skipped the next player", () => {
+      hand = play(1, undefined, hand)
+      expect(hand.playerInTurn).toEqual(2)
+      expect(checkUnoFailure({accuser: 1, accused: 0}, hand)).toBeTruthy()
+    })
+    it("closes the catch window when the next player plays", () => {
+      hand = play(0, undefined, play(0, undefined, hand))
+      expect(checkUnoFailure({accuser: 2, accused: 0}, hand)).toBeFalsy()
+    })
+    it("closes the catch window when the next player draws", () => {
+      hand = draw(play(0, undefined, hand))
+      expect(checkUnoFailure({accuser: 2, accused: 0}, hand)).toBeFalsy()
+    })
+    it("closes the catch window when the player is caught", () => {
+      hand = catchUnoFailure({accuser: 2, accused: 0}, play(0, undefined, hand))
+      expect(hand.hands[0].length).toEqual(5)
+      expect(hand.unoCatchable).toBeUndefined()
+      expect(() => catchUnoFailure({accuser: 3, accused: 0}, hand)).toThrow()
+    })
+    it("keeps the declaration after the catch window closes", () => {
+      hand = draw(play(0, undefined, sayUno(0, hand)))
+      expect(hand.saidUno.has(0)).toBeTruthy()
+    })
+    it("drops the declaration when the player draws", () => {
+      hand = draw(sayUno(0, hand))
+      expect(hand.saidUno.has(0)).toBeFalsy()
+    })
+    it("drops the declaration of a player who is caught", () => {
+      hand = sayUno(1, play(0, undefined, hand))
+      hand = catchUnoFailure({accuser: 1, accused: 0}, hand)
+      expect(hand.saidUno.has(1)).toBeTruthy()
+      expect(hand.saidUno.has(0)).toBeFalsy()
+    })
+  })
+
+  describe("with more cards left", () => {
+    let hand: Hand = undefined as any
+    beforeEach(() => {
+      const shuffler = shuffleBuilder({players: 4, cardsPerPlayer: 3})
+        .discard().is({type: 'NUMBERED', color: 'BLUE', number: 3})
+        .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 8}, {type: 'NUMBERED', color: 'BLUE', number: 9}, {type: 'NUMBERED', color: 'BLUE', number: 7})
+        .build()
+      hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, cardsPerPlayer: 3})
+    })
+
+    it("drops a declaration that didn't take the player to one card", () => {
+      hand = play(0, undefined, sayUno(0, hand))
+      expect(hand.hands[0].length).toEqual(2)
+      expect(hand.saidUno.has(0)).toBeFalsy()
+    })
+    it("doesn't let anyone catch a player with two cards", () => {
+      hand = play(0, undefined, hand)
+      expect(checkUnoFailure({accuser: 1, accused: 0}, hand)).toBeFalsy()
+    })
+  })
+})
+
+describe("Accusing a player", () => {
+  let hand: Hand = undefined as any
+  beforeEach(() => {
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), cardsPerPlayer: 2, rules: {falseAccusationPenalty: 2}})
+  })
+
+  it("catches a player who didn't say 'UNO!'", () => {
+    const result = accuseUno({accuser: 2, accused: 0}, play(0, undefined, hand))
+    expect(result.outcome).toEqual('caught')
+    expect(result.drawn).toEqual(4)
+    expect(result.hand.hands[0].length).toEqual(5)
+    expect(result.hand.hands[2].length).toEqual(2)
+  })
+  it("makes a false accuser draw", () => {
+    hand = play(0, undefined, sayUno(0, hand))
+    const result = accuseUno({accuser: 2, accused: 0}, hand)
+    expect(result.outcome).toEqual('falseAccusation')
+    expect(result.drawn).toEqual(2)
+    expect(result.hand.hands[2].length).toEqual(4)
+    expect(result.hand.hands[0].length).toEqual(1)
+  })
+  it("lets false accusations go unpunished without the rule", () => {
+    hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: builder.build(), cardsPerPlayer: 2})
+    const result = accuseUno({accuser: 2, accused: 1}, hand)
+    expect(result.outcome).toEqual('falseAccusation')
+    expect(result.drawn).toEqual(0)
+    expect(result.hand).toBe(hand)
+  })
+  it("keeps the catch window open after a false accusation", () => {
+    hand = play(0, undefined, hand)
+    const { hand: afterMistake } = accuseUno({accuser: 2, accused: 1}, hand)
+    expect(accuseUno({accuser: 2, accused: 0}, afterMistake).outcome).toEqual('caught')
+  })
+  it("rejects players accusing themselves", () => {
+    hand = play(0, undefined, hand)
+    expect(() => accuseUno({accuser: 0, accused: 0}, hand)).toThrow()
+    expect(() => checkUnoFailure({accuser: 0, accused: 0}, hand)).toThrow()
+  })
+  it("rejects accusers outside the table", () => {
+    expect(() => accuseUno({accuser: -1, accused: 0}, hand)).toThrow()
+    expect(() => accuseUno({accuser: 4, accused: 0}, hand)).toThrow()
+    expect(() => catchUnoFailure({accuser: 4, accused: 0}, hand)).toThrow()
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals'
+import { createGame, createHand } from '../utils/test_adapter'
+import { draw, play } from '../../src/model/hand'
+import { play as playGame } from '../../src/model/uno'
+import { createRules, partyRules, standardRules } from '../../src/model/rules'
+import { shuffleBuilder } from '../utils/shuffling'
+
+describe("Rule sets", () => {
+  it("fills in the standard rules", () => {
+    expect(createRules()).toEqual(standardRules)
+    expect(createRules({drawCount: 3})).toEqual({...standardRules, drawCount: 3})
+  })
+  it("uses the standard rules by default", () => {
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3})
+    expect(hand.rules).toEqual(standardRules)
+  })
+
+  it("can make reverse a plain reverse with 2 players", () => {
+    const shuffler = shuffleBuilder({players: 2, cardsPerPlayer: 7})
+      .discard().is({type:'NUMBERED', color: 'BLUE'})
+      .hand(0).is({type: 'REVERSE', color: 'BLUE'})
+      .build()
+    let hand = createHand({players: ['a', 'b'], dealer: 1, shuffler, rules: {reverseSkipsWithTwoPlayers: false}})
+    hand = play(0, undefined, hand)
+    expect(hand.playerInTurn).toEqual(1)
+  })
+
+  it("can change the number of cards drawn by draw cards", () => {
+    const shuffler = shuffleBuilder()
+      .discard().is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .hand(0).is({type: 'DRAW', color: 'BLUE'})
+      .build()
+    let hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: {drawCount: 3}})
+    hand = play(0, undefined, hand)
+    expect(hand.hands[1].length).toEqual(10)
+  })
+
+  it("can replace a wild first card instead of redealing", () => {
+    const shuffler = shuffleBuilder()
+      .discard().is({type: 'WILD'}, {type: 'NUMBERED', color: 'RED', number: 4})
+      .build()
+    const hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: {startingWild: 'replace'}})
+    expect(hand.discardPile).toEqual([{type: 'NUMBERED', color: 'RED', number: 4}])
+    expect(hand.drawPile[hand.drawPile.length - 1]).toEqual({type: 'WILD'})
+    expect(hand.currentColor).toEqual('RED')
+  })
+
+  it("can always pass the turn after drawing", () => {
+    const shuffler = shuffleBuilder()
+      .discard().is({type: 'NUMBERED', color: 'BLUE', number: 6})
+      .drawPile().is({type: 'NUMBERED', color: 'BLUE', number: 3})
+      .build()
+    let hand = createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler, rules: {playDrawnCard: false}})
+    hand = draw(hand)
+    expect(hand.playerInTurn).toEqual(1)
+  })
+
+  it("are carried across the hands of a game", () => {
+    const shuffler = shuffleBuilder({players: 2, cardsPerPlayer: 1})
+      .discard().is({type: 'NUMBERED', color: 'BLUE', number: 8})
+      .hand(0).is({type: 'NUMBERED', color: 'GREEN', number: 8})
+      .build()
+    let game = createGame({players: ['a', 'b'], randomizer: () => 1, shuffler, cardsPerPlayer: 1, rules: partyRules})
+    expect(game.rules).toEqual(partyRules)
+    expect(game.currentHand!.rules).toEqual(partyRules)
+    game = playGame(h => play(0, undefined, h), game)
+    expect(game.currentHand!.rules).toEqual(partyRules)
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from '@jest/globals'
+import { createGame } from '../utils/test_adapter'
+import { play as handPlay } from '../../src/model/hand'
+import { play } from '../../src/model/uno'
+import { Card, standardDeckSpec } from '../../src/model/deck'
+import { InvalidSetupError } from '../../src/model/errors'
+import { Shuffler } from '../../src/utils/random_utils'
+import { noShuffle, shuffleBuilder } from '../utils/shuffling'
+
+// Puts the given cards on top for the dealer draw, then leaves every later shuffle in order
+const drawThenKeep = (cards: Card[]): Shuffler<Card> => {
+  let drawn = false
+  return cs => {
+    if (drawn) return noShuffle(cs)
+    drawn = true
+    return [...cards, ...cs]
+  }
+}
+
+describe("Drawing for the deal", () => {
+  it("lets the highest number deal", () => {
+    const shuffler = drawThenKeep([
+      {type: 'NUMBERED', color: 'RED', number: 5},
+      {type: 'NUMBERED', color: 'BLUE', number: 9},
+      {type: 'NUMBERED', color: 'GREEN', number: 2},
+    ])
+    const game = createGame({players: ['a', 'b', 'c'], shuffler, dealerSelection: 'highCard'})
+    expect(game.currentHand?.dealer).toEqual(1)
+  })
+  it("records the cards drawn", () => {
+    const shuffler = drawThenKeep([
+      {type: 'NUMBERED', color: 'RED', number: 5},
+      {type: 'NUMBERED', color: 'BLUE', number: 9},
+    ])
+    const game = createGame({players: ['a', 'b'], shuffler, dealerSelection: 'highCard'})
+    expect(game.dealerDraws).toEqual([[
+      {player: 0, card: {type: 'NUMBERED', color: 'RED', number: 5}},
+      {player: 1, card: {type: 'NUMBERED', color: 'BLUE', number: 9}},
+    ]])
+  })
+  it("lets tied players draw again", () => {
+    const shuffler = drawThenKeep([
+      {type: 'NUMBERED', color: 'RED', number: 5},
+      {type: 'NUMBERED', color: 'BLUE', number: 9},
+      {type: 'NUMBERED', color: 'GREEN', number: 9},
+      {type: 'NUMBERED', color: 'RED', number: 3},
+      {type: 'NUMBERED', color: 'YELLOW', number: 7},
+    ])
+    const game = createGame({players: ['a', 'b', 'c'], shuffler, dealerSelection: 'highCard'})
+    expect(game.dealerDraws?.length).toEqual(2)
+    expect(game.dealerDraws?.[1].map(d => d.player)).toEqual([1, 2])
+    expect(game.currentHand?.dealer).toEqual(2)
+  })
+  it("counts other cards as 0", () => {
+    const shuffler = drawThenKeep([
+      {type: 'WILD'},
+      {type: 'NUMBERED', color: 'BLUE', number: 1},
+    ])
+    const game = createGame({players: ['a', 'b'], shuffler, dealerSelection: 'highCard'})
+    expect(game.currentHand?.dealer).toEqual(1)
+  })
+  it("needs numbered cards to draw", () => {
+    const rules = {deck: {...standardDeckSpec, numbers: []}}
+    expect(() => createGame({players: ['a', 'b'], rules, dealerSelection: 'highCard'})).toThrow(new InvalidSetupError('Cannot draw for the deal with cards that all count the same'))
+  })
+  it("needs cards of different numbers to draw", () => {
+    const rules = {deck: {...standardDeckSpec, numbers: [{from: 5, to: 5, copies: 40}], actions: {}, wilds: {}}}
+    expect(() => createGame({players: ['a', 'b'], rules, dealerSelection: 'highCard'})).toThrow(new InvalidSetupError('Cannot draw for the deal with cards that all count the same'))
+  })
+  it("picks the dealer at random by default", () => {
+    const game = createGame({players: ['a', 'b', 'c'], randomizer: () => 2})
+    expect(game.currentHand?.dealer).toEqual(2)
+    expect(game.dealerDraws).toBeUndefined()
+  })
+})
+
+describe("Seating", () => {
+  it("keeps the given order by default", () => {
+    expect(createGame({players: ['a', 'b', 'c']}).players).toEqual(['a', 'b', 'c'])
+  })
+  it("can seat the players in random order", () => {
+    const game = createGame({players: ['a', 'b', 'c'], randomizer: () => 0, randomSeating: true})
+    expect(game.players).toEqual(['b', 'c', 'a'])
+    expect(game.currentHand?.players).toEqual(['b', 'c', 'a'])
+  })
+})
+
+describe("Dealer rotation", () => {
+  // The first card reverses the direction, and player 0 goes out at once
+  const shuffler = shuffleBuilder({players: 3, cardsPerPlayer: 1})
+    .discard().is({type: 'REVERSE', color: 'BLUE'})
+    .hand(0).is({type: 'NUMBERED', color: 'BLUE', number: 8})
+    .build()
+  const props = {players: ['a', 'b', 'c'], randomizer: () => 1, shuffler, cardsPerPlayer: 1}
+
+  it("passes the deal to the left by default", () => {
+    const game = play(h => handPlay(0, undefined, h), createGame(props))
+    expect(game.currentHand?.dealer).toEqual(2)
+  })
+  it("can pass the deal on in the direction of play", () => {
+    const game = play(h => handPlay(0, undefined, h), createGame({...props, dealerRotation: 'playDirection'}))
+    expect(game.currentHand?.dealer).toEqual(0)
+  })
+})
+
+describe("Later hands", () => {
+  const shuffler = shuffleBuilder({players: 2, cardsPerPlayer: 1})
+    .discard().is({type: 'NUMBERED', color: 'BLUE', number: 3})
+    .hand(1).is({type: 'NUMBERED', color: 'BLUE', number: 8})
+    .build()
+
+  it("keep the randomizer of the game", () => {
+    const randomizer = () => 0
+    const game = play(h => handPlay(0, undefined, h), createGame({players: ['a', 'b'], randomizer, shuffler, cardsPerPlayer: 1}))
+    expect(game.currentHand?._randomizer).toBe(randomizer)
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals'
+import { createGame, createHand } from '../utils/test_adapter'
+import { penalties, play as handPlay, pointTable, score, scoreBreakdown } from '../../src/model/hand'
+import { play } from '../../src/model/uno'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const shuffler = shuffleBuilder({players: 2, cardsPerPlayer: 1})
+  .discard().is({type: 'NUMBERED', color: 'BLUE', number: 8})
+  .hand(0).is({type: 'NUMBERED', color: 'GREEN', number: 8})
+  .hand(1).is({type: 'NUMBERED', color: 'RED', number: 5})
+  .build()
+
+describe("Penalty scoring", () => {
+  it("charges every player for their own cards", () => {
+    const hand = handPlay(0, undefined, createHand({players: ['a', 'b'], dealer: 1, shuffler, cardsPerPlayer: 1}))
+    expect(penalties(hand)).toEqual([0, 5])
+  })
+  it("is undefined before the hand has ended", () => {
+    const hand = createHand({players: ['a', 'b'], dealer: 1, shuffler, cardsPerPlayer: 1})
+    expect(penalties(hand)).toBeUndefined()
+  })
+  it("uses standard scoring by default", () => {
+    expect(createGame({}).scoringStrategy).toEqual('standard')
+  })
+  it("accumulates penalties in the game scores", () => {
+    let game = createGame({players: ['a', 'b'], randomizer: () => 1, shuffler, cardsPerPlayer: 1, scoringStrategy: 'penalty'})
+    game = play(h => handPlay(0, undefined, h), game)
+    expect(game.scores).toEqual([0, 5])
+    expect(game.winner).toBeUndefined()
+    expect(game.currentHand).toBeDefined()
+  })
+  it("ends the game when someone reaches the limit and lets the lowest score win", () => {
+    let game = createGame({players: ['a', 'b'], targetScore: 5, randomizer: () => 1, shuffler, cardsPerPlayer: 1, scoringStrategy: 'penalty'})
+    game = play(h => handPlay(0, undefined, h), game)
+    expect(game.winner).toEqual(0)
+    expect(game.currentHand).toBeUndefined()
+  })
+})
+
+describe("Configurable scoring", () => {
+  const fourPlayers = shuffleBuilder({players: 4, cardsPerPlayer: 1})
+    .discard().is({type: 'NUMBERED', color: 'BLUE', number: 8})
+    .hand(0).is({type: 'SKIP', color: 'BLUE'})
+    .hand(1).is({type: 'WILD'})
+    .hand(2).is({type: 'NUMBERED', number: 7})
+    .hand(3).is({type: 'REVERSE'})
+    .build()
+  const finished = () => handPlay(0, undefined, createHand({players: ['a', 'b', 'c', 'd'], dealer: 3, shuffler: fourPlayers, cardsPerPlayer: 1}))
+
+  it("breaks the score down by opponent", () => {
+    expect(scoreBreakdown(finished())).toEqual({
+      winner: 0,
+      opponents: [{player: 1, points: 50}, {player: 2, points: 7}, {player: 3, points: 20}],
+      bonus: 0,
+      total: 77
+    })
+  })
+  it("uses a point table, keeping standard values for missing types", () => {
+    expect(score(finished(), {cardValue: pointTable({WILD: 25, NUMBERED: 1})})).toEqual(46)
+  })
+  it("adds a bonus for the card the winner went out on", () => {
+    const goingOutBonus = (card: {type: string}) => card.type === 'SKIP' ? 10 : 0
+    const breakdown = scoreBreakdown(finished(), {goingOutBonus})
+    expect(breakdown?.bonus).toEqual(10)
+    expect(breakdown?.total).toEqual(87)
+  })
+  it("is applied by the game and reported", () => {
+    let game = createGame({players: ['a', 'b'], randomizer: () => 1, shuffler, cardsPerPlayer: 1, scoring: {cardValue: () => 3}})
+    game = play(h => handPlay(0, undefined, h), game)
+    expect(game.scores).toEqual([3, 0])
+    expect(game.lastScore).toEqual({winner: 0, opponents: [{player: 1, points: 3}], bonus: 0, total: 3})
+  })
+})
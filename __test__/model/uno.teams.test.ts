@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals'
+import { createGame } from '../utils/test_adapter'
+import { play as handPlay } from '../../src/model/hand'
+import { oppositeTeams, play } from '../../src/model/uno'
+import { shuffleBuilder } from '../utils/shuffling'
+
+const shuffler = shuffleBuilder({players: 4, cardsPerPlayer: 1})
+  .discard().is({type: 'NUMBERED', color: 'BLUE', number: 8})
+  .hand(0).is({type: 'SKIP', color: 'BLUE'})
+  .hand(1).is({type: 'WILD'})
+  .hand(2).is({type: 'NUMBERED', number: 7})
+  .hand(3).is({type: 'REVERSE'})
+  .build()
+
+const props = {players: ['a', 'b', 'c', 'd'], randomizer: () => 3, shuffler, cardsPerPlayer: 1, teams: [[0, 2], [1, 3]]}
+
+describe("Playing in teams", () => {
+  it("seats partners opposite each other", () => {
+    expect(oppositeTeams(4)).toEqual([[0, 2], [1, 3]])
+    expect(oppositeTeams(6)).toEqual([[0, 3], [1, 4], [2, 5]])
+    expect(oppositeTeams(6, 3)).toEqual([[0, 2, 4], [1, 3, 5]])
+    expect(() => oppositeTeams(5)).toThrow()
+  })
+  it("keeps a score per team", () => {
+    const game = createGame(props)
+    expect(game.teams).toEqual([[0, 2], [1, 3]])
+    expect(game.scores).toEqual([0, 0])
+  })
+  it("requires every player to be on exactly one team", () => {
+    expect(() => createGame({...props, teams: [[0, 2], [1]]})).toThrow()
+    expect(() => createGame({...props, teams: [[0, 2], [1, 2, 3]]})).toThrow()
+    expect(() => createGame({...props, teams: [[0, 1, 2, 3]]})).toThrow()
+  })
+  it("scores the opponents' cards for the team of the winner", () => {
+    const game = play(h => handPlay(0, undefined, h), createGame(props))
+    expect(game.scores).toEqual([70, 0])
+    expect(game.lastScore?.opponents).toEqual([{player: 1, points: 50}, {player: 3, points: 20}])
+    expect(game.winner).toBeUndefined()
+  })
+  it("names the winning team", () => {
+    const game = play(h => handPlay(0, undefined, h), createGame({...props, targetScore: 70}))
+    expect(game.winner).toEqual(0)
+  })
+  it("charges the team for the cards of its members with penalty scoring", () => {
+    const game = play(h => handPlay(0, undefined, h), createGame({...props, scoringStrategy: 'penalty'}))
+    expect(game.scores).toEqual([7, 70])
+  })
+})
@@ -1,7 +1,8 @@
-import { Shuffler, standardShuffler } from '../../src/utils/random_utils'
+import { Randomizer, Shuffler, standardRandomizer, standardShuffler } from '../../src/utils/random_utils'
 import * as deck from '../../src/model/deck'
 import * as hand from '../../src/model/hand'
 import * as uno from '../../src/model/uno'
+import { RuleSet } from '../../src/model/rules'
 
 export function createInitialDeck(): deck.Deck {
   return deck.createInitialDeck()
@@ -12,15 +13,19 @@ export type HandProps = {
   dealer: number
   shuffler?: Shuffler<deck.Card>
   cardsPerPlayer?: number
+  rules?: Partial<RuleSet>
+  randomizer?: Randomizer
 }
 
 export function createHand({
     players, 
     dealer, 
     shuffler = standardShuffler,
-    cardsPerPlayer = 7
+    cardsPerPlayer = 7,
+    rules = {},
+    randomizer = standardRandomizer
   }: HandProps): hand.Hand {
-  return hand.createHand(players, dealer, shuffler, cardsPerPlayer)
+  return hand.createHand(players, dealer, shuffler, cardsPerPlayer, rules, randomizer)
 }
 
 export function createGame(props: Partial<uno.Props>): uno.Game {
@@ -0,0 +1,353 @@
+import { Card, Type, colors, darkColors, flipCard, takeCards } from "./deck";
+import { RuleSet } from "./rules";
+import { emit, reshuffleEvents } from "./events";
+import type { Hand } from "./hand";
+import { InvalidSetupError } from "./errors";
+
+/**
+ * Describes the card being played, as handed to the effect of its type.
+ *
+ * @interface PlayedCard
+ * @property {Card} card - The card being played. When several cards are played at once, the last of them.
+ * @property {number} player - The index of the player playing the card.
+ * @property {number} [target] - The player the card is aimed at, for targeted cards.
+ * @property {number} count - The number of identical cards played at once, whose effects add up.
+ * @category Types
+ */
+export interface PlayedCard {
+  card: Card;
+  player: number;
+  target?: number;
+  count: number;
+}
+
+/**
+ * Defines how the cards of a type behave.
+ *
+ * The effect is given the hand with the card already moved to the discard pile and the color set,
+ * while the player who played it is still in turn. It must return the hand with the next player in turn.
+ * The effect is not applied when the player goes out, nor while a draw card is stacked or can be challenged.
+ * Effects record what they do to the players on the hand's event log, see `emit`.
+ *
+ * @interface CardType
+ * @property {boolean} wild - Whether the card has no color, so the player must choose one when playing it.
+ * @property {(card: Card, hand: Hand) => boolean} playable - Whether the card may be played on the discard pile by the player in turn.
+ * @property {(hand: Hand, played: PlayedCard) => Hand} effect - What playing the card does to the hand.
+ * @property {(card: Card) => number} points - The standard point value of the card.
+ * @property {(rules: RuleSet) => number} [penalty] - The number of cards the next player must draw, for draw cards. Draw cards take part in stacking.
+ * @property {boolean} [challengeable] - Whether the card may be challenged under the challengeWildDraw rule.
+ * @property {(card: Card, hand: Hand) => boolean} [targeted] - Whether the player must aim the card at an opponent.
+ * @category Types
+ */
+export interface CardType {
+  wild: boolean;
+  playable: (card: Card, hand: Hand) => boolean;
+  effect: (hand: Hand, played: PlayedCard) => Hand;
+  points: (card: Card) => number;
+  penalty?: (rules: RuleSet) => number;
+  challengeable?: boolean;
+  targeted?: (card: Card, hand: Hand) => boolean;
+}
+
+const registry = new Map<Type, CardType>();
+
+/**
+ * Registers a new card type. Cards of the type can then be added to a deck through its specification.
+ *
+ * @param {Type} type - The name of the card type.
+ * @param {CardType} definition - How cards of the type behave.
+ * @throws {InvalidSetupError} If the type is already registered.
+ * @category Functions
+ * @example
+ * registerCardType("SKIP TWO", {
+ *   wild: false,
+ *   playable: matchesColorOrType,
+ *   effect: (hand) => ({ ...hand, playerInTurn: nextPlayer(hand, 3) }),
+ *   points: () => 20
+ * });
+ */
+export function registerCardType(type: Type, definition: CardType): void {
+  if (registry.has(type)) {
+    throw new InvalidSetupError("Card type already registered");
+  }
+  registry.set(type, definition);
+}
+
+/**
+ * Looks up the definition of a card type.
+ *
+ * @param {Type} type - The name of the card type.
+ * @returns {CardType} How cards of the type behave.
+ * @throws {InvalidSetupError} If the type is not registered.
+ * @category Functions
+ * @example
+ * const { points } = cardType("SKIP");
+ */
+export function cardType(type: Type): CardType {
+  const definition = registry.get(type);
+  if (definition === undefined) {
+    throw new InvalidSetupError("Unknown card type");
+  }
+  return definition;
+}
+
+/**
+ * Gives the index of the player a number of turns after the player in turn, in the direction of play.
+ *
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} [steps=1] - The number of turns to move on.
+ * @returns {number} The index of the player.
+ * @category Functions
+ * @example
+ * const skipped = nextPlayer(hand, 2);
+ */
+export function nextPlayer(hand: Hand, steps: number = 1): number {
+  const player = hand.playerInTurn! + steps * hand.direction;
+  return ((player % hand.playerCount) + hand.playerCount) % hand.playerCount;
+}
+
+/**
+ * Makes a player take cards from the draw pile, reshuffling the discard pile if needed.
+ * A reshuffle is recorded on the event log, while the cards taken are left to the caller to record.
+ *
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} player - The index of the player taking the cards.
+ * @param {number} count - The number of cards to take.
+ * @returns {Hand} The new state of the hand.
+ * @category Functions
+ * @example
+ * const newHand = giveCards(hand, nextPlayer(hand), 2);
+ */
+export function giveCards(hand: Hand, player: number, count: number): Hand {
+  const [taken, drawPile, discardPile] = takeCards(count, hand.drawPile, hand.discardPile, hand._shuffler);
+  const hands = [...hand.hands];
+  hands[player] = [...hands[player], ...taken];
+  return emit({ ...hand, hands, drawPile, discardPile }, ...reshuffleEvents(hand.discardPile, discardPile));
+}
+
+/**
+ * Makes a player draw cards as a penalty, recording them on the event log.
+ *
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} player - The index of the player drawing the cards.
+ * @param {number} count - The number of cards to draw.
+ * @returns {Hand} The new state of the hand.
+ * @category Functions
+ * @example
+ * const newHand = penalize(hand, nextPlayer(hand), 2);
+ */
+export function penalize(hand: Hand, player: number, count: number): Hand {
+  const given = giveCards(hand, player, count);
+  return emit(given, { type: "PenaltyDrawn", player, cards: given.hands[player].slice(hand.hands[player].length) });
+}
+
+/**
+ * The playability rule of most colored cards: the card matches the current color or the type of the top card.
+ *
+ * @param {Card} card - The card to check.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {boolean} True if the card matches, false otherwise.
+ * @category Functions
+ */
+export function matchesColorOrType(card: Card, hand: Hand): boolean {
+  return card.color === hand.currentColor || card.type === hand.discardPile[hand.discardPile.length - 1].type;
+}
+
+/**
+ * Moves the turn on by a number of players. Every player passed over is recorded as skipped.
+ *
+ * @function advance
+ * @param {number} steps - The number of turns to move on.
+ * @returns {(hand: Hand) => Hand} An effect moving the turn on.
+ * @category Functions
+ */
+const advance = (steps: number) => (hand: Hand): Hand =>
+  emit(
+    { ...hand, playerInTurn: nextPlayer(hand, steps) },
+    ...Array.from({ length: steps - 1 }, (_, i) => ({ type: "PlayerSkipped" as const, player: nextPlayer(hand, i + 1) }))
+  );
+
+/**
+ * Makes the next player draw and skips them.
+ *
+ * @function drawAndSkip
+ * @param {(rules: RuleSet) => number} penalty - The number of cards to draw for each card played.
+ * @returns {(hand: Hand, played: PlayedCard) => Hand} An effect making the next player draw.
+ * @category Functions
+ */
+const drawAndSkip = (penalty: (rules: RuleSet) => number) => (hand: Hand, { count }: PlayedCard): Hand =>
+  advance(2)(penalize(hand, nextPlayer(hand), penalty(hand.rules) * count));
+
+/**
+ * The playability rule of wild draw cards: the player may not hold a card of the current color,
+ * unless the card may be challenged.
+ *
+ * @function holdsNoCurrentColor
+ * @param {Card} _ - The card to check.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {boolean} True if the card can be played, false otherwise.
+ * @category Functions
+ */
+const holdsNoCurrentColor = (_: Card, hand: Hand): boolean =>
+  hand.rules.challengeWildDraw || !hand.hands[hand.playerInTurn!].some((c) => c.color === hand.currentColor);
+
+/**
+ * Turns the whole game over: every card in the hands, the draw pile and the discard pile is turned over in place.
+ * The new top card of the discard pile sets the color. If it is wild, the color turns into its counterpart on the other side.
+ *
+ * @function turnOver
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Hand} The hand played from the other side.
+ * @category Functions
+ */
+function turnOver(hand: Hand): Hand {
+  const discardPile = hand.discardPile.map(flipCard);
+  const [from, to] = hand.side === "light" ? [colors, darkColors] : [darkColors, colors];
+
+  return {
+    ...hand,
+    hands: hand.hands.map((h) => h.map(flipCard)),
+    drawPile: hand.drawPile.map(flipCard),
+    discardPile,
+    side: hand.side === "light" ? "dark" : "light",
+    currentColor: discardPile[discardPile.length - 1].color ?? to[from.indexOf(hand.currentColor!)]
+  };
+}
+
+registerCardType("NUMBERED", {
+  wild: false,
+  playable: (card, hand) => {
+    const topCard = hand.discardPile[hand.discardPile.length - 1];
+    return card.color === hand.currentColor || (topCard.type === "NUMBERED" && card.number === topCard.number);
+  },
+  // Under the Seven-O rule, a 7 swaps hands with the target and a 0 rotates all hands, once for every 0 played.
+  // A declaration of "UNO" belongs to the cards it was made on, so it is dropped for
+  // everyone who receives new cards. The player of the card keeps theirs if they still end on one card,
+  // as they made it for playing down to one card.
+  effect: (hand, { card, player, target, count }) => {
+    const next = advance(1)(hand);
+    if (!hand.rules.sevenO || (card.number !== 7 && card.number !== 0)) return next;
+
+    const hands = [...hand.hands];
+    if (card.number === 7) {
+      [hands[player], hands[target!]] = [hands[target!], hands[player]];
+    } else {
+      hand.hands.forEach((h, idx) => {
+        hands[(idx + count * hand.direction + count * hand.playerCount) % hand.playerCount] = h;
+      });
+    }
+    const kept = hands[player].length === 1 && hand.saidUno.has(player);
+    const saidUno = new Set(card.number === 7 ? [...hand.saidUno].filter((p) => p !== player && p !== target) : []);
+    return { ...next, hands, saidUno: kept ? new Set([...saidUno, player]) : saidUno };
+  },
+  points: (card) => card.number!,
+  targeted: (card, hand) => hand.rules.sevenO && card.number === 7
+});
+
+registerCardType("SKIP", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: (hand, { count }) => advance(count + 1)(hand),
+  points: () => 20
+});
+
+registerCardType("REVERSE", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: (hand, { count }) => {
+    const direction = (hand.direction * (-1) ** count) as 1 | -1;
+    const reversed = direction === hand.direction
+      ? hand
+      : emit({ ...hand, direction }, { type: "DirectionReversed", direction });
+    if (hand.playerCount === 2 && hand.rules.reverseSkipsWithTwoPlayers) {
+      return emit(reversed, { type: "PlayerSkipped", player: nextPlayer(hand) });
+    }
+    return advance(1)(reversed);
+  },
+  points: () => 20
+});
+
+registerCardType("DRAW", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: drawAndSkip((rules) => rules.drawCount),
+  points: () => 20,
+  penalty: (rules) => rules.drawCount
+});
+
+registerCardType("WILD", {
+  wild: true,
+  playable: () => true,
+  effect: advance(1),
+  points: () => 50
+});
+
+registerCardType("WILD DRAW", {
+  wild: true,
+  playable: holdsNoCurrentColor,
+  effect: drawAndSkip((rules) => rules.wildDrawCount),
+  points: () => 50,
+  penalty: (rules) => rules.wildDrawCount,
+  challengeable: true
+});
+
+// The cards of UNO Flip. Their draw penalties are printed on the cards, so they don't follow the draw counts of the rules.
+
+registerCardType("FLIP", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: (hand) => advance(1)(turnOver(hand)),
+  points: () => 20
+});
+
+registerCardType("DRAW ONE", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: drawAndSkip(() => 1),
+  points: () => 10,
+  penalty: () => 1
+});
+
+registerCardType("WILD DRAW TWO", {
+  wild: true,
+  playable: holdsNoCurrentColor,
+  effect: drawAndSkip(() => 2),
+  points: () => 50,
+  penalty: () => 2,
+  challengeable: true
+});
+
+registerCardType("DRAW FIVE", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: drawAndSkip(() => 5),
+  points: () => 20,
+  penalty: () => 5
+});
+
+registerCardType("SKIP EVERYONE", {
+  wild: false,
+  playable: matchesColorOrType,
+  effect: (hand) =>
+    emit(hand, ...hand.hands.map((_, player) => ({ type: "PlayerSkipped" as const, player })).filter(({ player }) => player !== hand.playerInTurn)),
+  points: () => 30
+});
+
+// The next player draws until they get a card of the chosen color, and is then skipped
+registerCardType("WILD DRAW COLOR", {
+  wild: true,
+  playable: (_, hand) => !hand.hands[hand.playerInTurn!].some((c) => c.color === hand.currentColor),
+  effect: (hand) => {
+    const victim = nextPlayer(hand);
+    let drawing = hand;
+    for (;;) {
+      const next = giveCards(drawing, victim, 1);
+      const drawn = next.hands[victim].slice(drawing.hands[victim].length);
+      drawing = next;
+      if (drawn.length === 0 || drawn[0].color === hand.currentColor) break;
+    }
+    const cards = drawing.hands[victim].slice(hand.hands[victim].length);
+    return advance(2)(emit(drawing, { type: "PenaltyDrawn", player: victim, cards }));
+  },
+  points: () => 60
+});
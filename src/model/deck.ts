@@ -1,34 +1,52 @@
+import { Shuffler } from "../utils/random_utils";
+import { InvalidSetupError } from "./errors";
+
 /**
- * Represents the color of a card.
+ * Represents the color of a card. The last four colors are only found on the dark side of UNO Flip cards.
  * 
- * @typedef {("RED" | "YELLOW" | "GREEN" | "BLUE")} Color
+ * @typedef {("RED" | "YELLOW" | "GREEN" | "BLUE" | "PINK" | "TEAL" | "ORANGE" | "PURPLE")} Color
  * @category Types
  */
-export type Color = "RED" | "YELLOW" | "GREEN" | "BLUE";
+export type Color = "RED" | "YELLOW" | "GREEN" | "BLUE" | "PINK" | "TEAL" | "ORANGE" | "PURPLE";
 
 /**
- * Represents the type of a card.
+ * Represents the type of a card: one of the six built-in types, or any type registered with `registerCardType`.
  * 
- * @typedef {("NUMBERED" | "SKIP" | "REVERSE" | "DRAW" | "WILD" | "WILD DRAW")} Type
+ * @typedef {("NUMBERED" | "SKIP" | "REVERSE" | "DRAW" | "WILD" | "WILD DRAW" | string)} Type
  * @category Types
  */
-export type Type = "NUMBERED" | "SKIP" | "REVERSE" | "DRAW" | "WILD" | "WILD DRAW";
+export type Type = "NUMBERED" | "SKIP" | "REVERSE" | "DRAW" | "WILD" | "WILD DRAW" | (string & {});
 
 /**
- * Represents a card in the deck.
+ * Represents one side of a card.
  * 
- * @interface Card
+ * @interface CardFace
  * @property {Color} [color] - The color of the card (optional for wild cards).
  * @property {Type} type - The type of the card.
  * @property {number} [number] - The number on the card (optional for non-numbered cards).
  * @category Types
  */
-export interface Card {
+export interface CardFace {
   color?: Color;
   type: Type;
   number?: number;
 }
 
+/**
+ * Represents a card in the deck. The card shows the face it is described by, while a two-sided card
+ * keeps its other face on the back.
+ * 
+ * @interface Card
+ * @property {Color} [color] - The color of the card (optional for wild cards).
+ * @property {Type} type - The type of the card.
+ * @property {number} [number] - The number on the card (optional for non-numbered cards).
+ * @property {CardFace} [back] - The other side of the card, for two-sided decks such as UNO Flip.
+ * @category Types
+ */
+export interface Card extends CardFace {
+  back?: CardFace;
+}
+
 /**
  * Represents a deck of cards.
  * 
@@ -44,45 +62,182 @@ export type Deck = Card[];
  */
 export const colors: Color[] = ["RED", "YELLOW", "GREEN", "BLUE"];
 
+/**
+ * Array of the colors on the dark side of UNO Flip cards, in the order matching `colors`.
+ * 
+ * @category Constants
+ */
+export const darkColors: Color[] = ["PINK", "TEAL", "ORANGE", "PURPLE"];
+
+/**
+ * Describes which cards a deck is made of. The format is plain data, so it can be stored as JSON.
+ * 
+ * @interface DeckSpec
+ * @property {Color[]} colors - The colors of the numbered and action cards.
+ * @property {{ from: number; to: number; copies: number }[]} numbers - Ranges of numbered cards, with the number of copies of each card per color.
+ * @property {Partial<Record<Type, number>>} actions - The number of copies of each action card per color.
+ * @property {Partial<Record<Type, number>>} wilds - The number of copies of each wild card.
+ * @category Types
+ */
+export interface DeckSpec {
+  colors: Color[];
+  numbers: { from: number; to: number; copies: number }[];
+  actions: Partial<Record<Type, number>>;
+  wilds: Partial<Record<Type, number>>;
+}
+
+/**
+ * The specification of the standard 108-card deck.
+ * 
+ * @category Constants
+ */
+export const standardDeckSpec: DeckSpec = {
+  colors,
+  numbers: [
+    { from: 0, to: 0, copies: 1 },
+    { from: 1, to: 9, copies: 2 }
+  ],
+  actions: { SKIP: 2, REVERSE: 2, DRAW: 2 },
+  wilds: { WILD: 4, "WILD DRAW": 4 }
+};
+
+/**
+ * The specification of the light side of the 112-card UNO Flip deck.
+ * 
+ * @category Constants
+ */
+export const flipLightDeckSpec: DeckSpec = {
+  colors,
+  numbers: [{ from: 1, to: 9, copies: 2 }],
+  actions: { "DRAW ONE": 2, REVERSE: 2, SKIP: 2, FLIP: 2 },
+  wilds: { WILD: 4, "WILD DRAW TWO": 4 }
+};
+
+/**
+ * The specification of the dark side of the 112-card UNO Flip deck.
+ * 
+ * @category Constants
+ */
+export const flipDarkDeckSpec: DeckSpec = {
+  colors: darkColors,
+  numbers: [{ from: 1, to: 9, copies: 2 }],
+  actions: { "DRAW FIVE": 2, REVERSE: 2, "SKIP EVERYONE": 2, FLIP: 2 },
+  wilds: { WILD: 4, "WILD DRAW COLOR": 4 }
+};
+
 /**
  * Creates the initial deck of UNO cards.
  * 
+ * @param {DeckSpec} [spec=standardDeckSpec] - The specification of the cards in the deck.
+ * @param {number} [deckCount=1] - The number of decks to combine.
  * @returns {Deck} The initial deck of UNO cards.
+ * @throws {InvalidSetupError} If the specification holds invalid ranges or counts.
  * @category Functions
  * @example
  * const deck = createInitialDeck();
+ * const noZeros = createInitialDeck({ ...standardDeckSpec, numbers: [{ from: 1, to: 9, copies: 2 }] });
+ * const doubleDeck = createInitialDeck(standardDeckSpec, 2);
  */
-export function createInitialDeck(): Deck {
+export function createInitialDeck(spec: DeckSpec = standardDeckSpec, deckCount: number = 1): Deck {
+  const counts = [
+    ...spec.numbers.map((range) => range.copies),
+    ...Object.values(spec.actions),
+    ...Object.values(spec.wilds)
+  ];
+  if (
+    spec.numbers.some((range) => range.from > range.to) ||
+    counts.some((count) => count === undefined || count < 0 || !Number.isInteger(count))
+  ) {
+    throw new InvalidSetupError("Invalid deck specification");
+  }
+
   const deck: Deck = [];
-  
-  // Add numbered cards (19 of each color: one 0, two 1-9)
-  for (const color of colors) {
-    // Add one 0
-    deck.push({ type: "NUMBERED", color, number: 0 });
-    // Add two of each 1-9
-    for (let number = 1; number <= 9; number++) {
-      deck.push({ type: "NUMBERED", color, number });
-      deck.push({ type: "NUMBERED", color, number });
+
+  // Combine several decks for big tables
+  if (deckCount > 1) {
+    for (let i = 0; i < deckCount; i++) {
+      deck.push(...createInitialDeck(spec));
     }
+    return deck;
   }
 
-  // Add action cards (2 of each color)
-  for (const color of colors) {
-    for (const type of ["SKIP", "REVERSE", "DRAW"] as Type[]) {
-      deck.push({ type, color });
-      deck.push({ type, color });
+  // Add numbered cards
+  for (const color of spec.colors) {
+    for (const { from, to, copies } of spec.numbers) {
+      for (let number = from; number <= to; number++) {
+        for (let i = 0; i < copies; i++) {
+          deck.push({ type: "NUMBERED", color, number });
+        }
+      }
     }
   }
 
-  // Add wild cards (4 each)
-  for (let i = 0; i < 4; i++) {
-    deck.push({ type: "WILD" });
-    deck.push({ type: "WILD DRAW" });
+  // Add action cards
+  for (const color of spec.colors) {
+    for (const [type, copies] of Object.entries(spec.actions) as [Type, number][]) {
+      for (let i = 0; i < copies; i++) {
+        deck.push({ type, color });
+      }
+    }
+  }
+
+  // Add wild cards, alternating between the kinds
+  const wilds = Object.entries(spec.wilds) as [Type, number][];
+  const mostWilds = Math.max(0, ...wilds.map(([, copies]) => copies));
+  for (let i = 0; i < mostWilds; i++) {
+    for (const [type, copies] of wilds) {
+      if (i < copies) {
+        deck.push({ type });
+      }
+    }
   }
 
   return deck;
 }
 
+/**
+ * Creates a deck of two-sided cards by printing the dark side specification on the back of the light side.
+ * The dark faces are paired with the light faces in reverse order, so like cards don't share a back.
+ * 
+ * @param {DeckSpec} [light=flipLightDeckSpec] - The specification of the light side.
+ * @param {DeckSpec} [dark=flipDarkDeckSpec] - The specification of the dark side.
+ * @param {number} [deckCount=1] - The number of decks to combine.
+ * @returns {Deck} The deck, light side up.
+ * @throws {InvalidSetupError} If a specification is invalid or the sides hold different numbers of cards.
+ * @category Functions
+ * @example
+ * const flipDeck = createTwoSidedDeck();
+ */
+export function createTwoSidedDeck(
+  light: DeckSpec = flipLightDeckSpec,
+  dark: DeckSpec = flipDarkDeckSpec,
+  deckCount: number = 1
+): Deck {
+  const fronts = createInitialDeck(light, deckCount);
+  const backs = createInitialDeck(dark, deckCount).reverse();
+  if (fronts.length !== backs.length) {
+    throw new InvalidSetupError("Both sides must have the same number of cards");
+  }
+
+  return fronts.map((front, i) => ({ ...front, back: backs[i] }));
+}
+
+/**
+ * Turns a card over. One-sided cards are left as they are.
+ * 
+ * @param {Card} card - The card to turn over.
+ * @returns {Card} The card showing its other side.
+ * @category Functions
+ * @example
+ * const darkSide = flipCard(card);
+ */
+export function flipCard(card: Card): Card {
+  if (card.back === undefined) return card;
+
+  const { back, ...front } = card;
+  return { ...back, back: front };
+}
+
 /**
  * Deals a specified number of cards from the deck.
  * 
@@ -97,6 +252,35 @@ export function deal(deck: Deck, count: number): [Card[], Deck] {
   return [deck.slice(0, count), deck.slice(count)];
 }
 
+/**
+ * Takes cards from the top of the draw pile.
+ * 
+ * If the draw pile holds too few cards, the discard pile except its top card is shuffled
+ * and placed under the draw pile first.
+ * 
+ * @param {number} count - The number of cards to take.
+ * @param {Card[]} drawPile - The draw pile to take from.
+ * @param {Card[]} discardPile - The discard pile to reshuffle if needed.
+ * @param {Shuffler<Card>} shuffler - The shuffler function used to shuffle the discard pile.
+ * @returns {[Card[], Card[], Card[]]} A tuple containing the taken cards, the new draw pile and the new discard pile.
+ * @category Functions
+ * @example
+ * const [taken, drawPile, discardPile] = takeCards(2, hand.drawPile, hand.discardPile, hand._shuffler);
+ */
+export function takeCards(
+  count: number,
+  drawPile: Card[],
+  discardPile: Card[],
+  shuffler: Shuffler<Card>
+): [Card[], Card[], Card[]] {
+  if (drawPile.length < count) {
+    const topCard = discardPile[discardPile.length - 1];
+    drawPile = [...drawPile, ...shuffler(discardPile.slice(0, -1))];
+    discardPile = [topCard];
+  }
+  return [drawPile.slice(0, count), drawPile.slice(count), discardPile];
+}
+
 /**
  * Shuffles the deck of cards.
  * 
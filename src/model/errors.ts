@@ -0,0 +1,134 @@
+import type { Card } from "./deck";
+import type { PlayRejection } from "./hand";
+
+/**
+ * The base class of every error the engine throws on purpose, so callers can tell them apart from bugs.
+ *
+ * @class UnoError
+ * @category Errors
+ */
+export class UnoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnoError";
+  }
+}
+
+/**
+ * Thrown when acting on a hand or a game that is already over.
+ *
+ * @class GameOverError
+ * @category Errors
+ */
+export class GameOverError extends UnoError {
+  constructor() {
+    super("Game is over");
+    this.name = "GameOverError";
+  }
+}
+
+/**
+ * Thrown when a card cannot be played, or not the way it was played.
+ *
+ * @class IllegalPlayError
+ * @property {number} [player] - The index of the player who tried to play.
+ * @property {Card} [card] - The card the player tried to play.
+ * @property {PlayRejection} [rejection] - Why the card cannot be played, see `explainPlay`.
+ * @category Errors
+ */
+export class IllegalPlayError extends UnoError {
+  readonly player?: number;
+  readonly card?: Card;
+  readonly rejection?: PlayRejection;
+
+  constructor(message: string, context: { player?: number; card?: Card; rejection?: PlayRejection } = {}) {
+    super(message);
+    this.name = "IllegalPlayError";
+    this.player = context.player;
+    this.card = context.card;
+    this.rejection = context.rejection;
+  }
+}
+
+/**
+ * Thrown when an action other than playing a card is not allowed at this point of the hand,
+ * such as passing without drawing or challenging when there is nothing to challenge.
+ *
+ * @class IllegalActionError
+ * @property {string} action - The action attempted, named as the kind of `Move` it stands for.
+ * @property {number} [player] - The index of the player who attempted it.
+ * @category Errors
+ */
+export class IllegalActionError extends UnoError {
+  readonly action: string;
+  readonly player?: number;
+
+  constructor(message: string, action: string, player?: number) {
+    super(message);
+    this.name = "IllegalActionError";
+    this.action = action;
+    this.player = player;
+  }
+}
+
+/**
+ * Thrown when a player index is out of range or names the wrong player, such as a player accusing themselves.
+ *
+ * @class InvalidPlayerError
+ * @property {number} player - The player index given.
+ * @category Errors
+ */
+export class InvalidPlayerError extends UnoError {
+  readonly player: number;
+
+  constructor(message: string, player: number) {
+    super(message);
+    this.name = "InvalidPlayerError";
+    this.player = player;
+  }
+}
+
+/**
+ * Thrown when a game, hand, deck or card type cannot be set up as asked.
+ *
+ * @class InvalidSetupError
+ * @category Errors
+ */
+export class InvalidSetupError extends UnoError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSetupError";
+  }
+}
+
+/**
+ * The outcome of an action for callers that prefer not to catch exceptions: either the new state or the error.
+ *
+ * @typedef {object} Result
+ * @property {boolean} ok - Whether the action succeeded.
+ * @property {T} [value] - The new state, if the action succeeded.
+ * @property {UnoError} [error] - Why the action failed, if it did.
+ * @category Types
+ */
+export type Result<T> = { ok: true; value: T } | { ok: false; error: UnoError };
+
+/**
+ * Runs an action and returns its outcome as a Result. Only errors of the engine are caught; anything else is rethrown.
+ *
+ * @param {() => T} action - The action to run.
+ * @returns {Result<T>} The value of the action, or the error it threw.
+ * @category Functions
+ * @example
+ * const result = attempt(() => play(0, undefined, hand));
+ * if (!result.ok && result.error instanceof IllegalPlayError) console.log(result.error.rejection);
+ */
+export function attempt<T>(action: () => T): Result<T> {
+  try {
+    return { ok: true, value: action() };
+  } catch (error) {
+    if (error instanceof UnoError) {
+      return { ok: false, error };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,188 @@
+import { Card, Color } from "./deck";
+import type { Hand } from "./hand";
+
+/**
+ * A card was played from a player's hand onto the discard pile. Playing several cards at once gives one event per card.
+ *
+ * @interface CardPlayed
+ * @property {"CardPlayed"} type - The kind of event.
+ * @property {number} player - The index of the player who played the card.
+ * @property {Card} card - The card played.
+ * @category Types
+ */
+export interface CardPlayed {
+  type: "CardPlayed";
+  player: number;
+  card: Card;
+}
+
+/**
+ * A player drew a card by choice, rather than as a penalty.
+ *
+ * @interface CardDrawn
+ * @property {"CardDrawn"} type - The kind of event.
+ * @property {number} player - The index of the player who drew the card.
+ * @property {Card} card - The card drawn.
+ * @category Types
+ */
+export interface CardDrawn {
+  type: "CardDrawn";
+  player: number;
+  card: Card;
+}
+
+/**
+ * A player chose the color to play on, with a wild card or for a wild first card.
+ *
+ * @interface ColorChosen
+ * @property {"ColorChosen"} type - The kind of event.
+ * @property {number} player - The index of the player who chose the color.
+ * @property {Color} color - The color chosen.
+ * @category Types
+ */
+export interface ColorChosen {
+  type: "ColorChosen";
+  player: number;
+  color: Color;
+}
+
+/**
+ * The direction of play was reversed.
+ *
+ * @interface DirectionReversed
+ * @property {"DirectionReversed"} type - The kind of event.
+ * @property {1 | -1} direction - The new direction of play.
+ * @category Types
+ */
+export interface DirectionReversed {
+  type: "DirectionReversed";
+  direction: 1 | -1;
+}
+
+/**
+ * A player lost their turn.
+ *
+ * @interface PlayerSkipped
+ * @property {"PlayerSkipped"} type - The kind of event.
+ * @property {number} player - The index of the player skipped.
+ * @category Types
+ */
+export interface PlayerSkipped {
+  type: "PlayerSkipped";
+  player: number;
+}
+
+/**
+ * A player drew cards as a penalty, for a draw card, a lost challenge or a missing "UNO".
+ *
+ * @interface PenaltyDrawn
+ * @property {"PenaltyDrawn"} type - The kind of event.
+ * @property {number} player - The index of the player who drew the cards.
+ * @property {Card[]} cards - The cards drawn. There may be fewer than the penalty if the piles ran out.
+ * @category Types
+ */
+export interface PenaltyDrawn {
+  type: "PenaltyDrawn";
+  player: number;
+  cards: Card[];
+}
+
+/**
+ * A player said "UNO".
+ *
+ * @interface UnoDeclared
+ * @property {"UnoDeclared"} type - The kind of event.
+ * @property {number} player - The index of the player.
+ * @category Types
+ */
+export interface UnoDeclared {
+  type: "UnoDeclared";
+  player: number;
+}
+
+/**
+ * A player was caught for failing to say "UNO".
+ *
+ * @interface UnoCaught
+ * @property {"UnoCaught"} type - The kind of event.
+ * @property {number} accuser - The index of the player who caught them.
+ * @property {number} accused - The index of the player caught.
+ * @category Types
+ */
+export interface UnoCaught {
+  type: "UnoCaught";
+  accuser: number;
+  accused: number;
+}
+
+/**
+ * The discard pile, except for its top card, was shuffled into the draw pile.
+ *
+ * @interface DiscardReshuffled
+ * @property {"DiscardReshuffled"} type - The kind of event.
+ * @property {number} count - The number of cards shuffled into the draw pile.
+ * @category Types
+ */
+export interface DiscardReshuffled {
+  type: "DiscardReshuffled";
+  count: number;
+}
+
+/**
+ * A player went out, ending the hand.
+ *
+ * @interface HandEnded
+ * @property {"HandEnded"} type - The kind of event.
+ * @property {number} winner - The index of the player who went out.
+ * @category Types
+ */
+export interface HandEnded {
+  type: "HandEnded";
+  winner: number;
+}
+
+/**
+ * Something that happened during a hand. Every action records the events it causes on the hand, in order.
+ *
+ * @typedef {CardPlayed | CardDrawn | ColorChosen | DirectionReversed | PlayerSkipped | PenaltyDrawn | UnoDeclared | UnoCaught | DiscardReshuffled | HandEnded} HandEvent
+ * @category Types
+ */
+export type HandEvent =
+  | CardPlayed
+  | CardDrawn
+  | ColorChosen
+  | DirectionReversed
+  | PlayerSkipped
+  | PenaltyDrawn
+  | UnoDeclared
+  | UnoCaught
+  | DiscardReshuffled
+  | HandEnded;
+
+/**
+ * Records events on a hand.
+ *
+ * @param {Hand} hand - The current state of the hand.
+ * @param {...HandEvent[]} events - The events to record, in the order they happened.
+ * @returns {Hand} The hand with the events added to its log.
+ * @category Functions
+ * @example
+ * const newHand = emit(hand, { type: "PlayerSkipped", player: 2 });
+ */
+export function emit(hand: Hand, ...events: HandEvent[]): Hand {
+  return events.length === 0 ? hand : { ...hand, events: [...hand.events, ...events] };
+}
+
+/**
+ * Gives the event for a reshuffle of the discard pile, if one happened while cards were taken.
+ *
+ * @param {Card[]} before - The discard pile before the cards were taken.
+ * @param {Card[]} after - The discard pile after the cards were taken.
+ * @returns {HandEvent[]} A DiscardReshuffled event if the discard pile was reshuffled, and no events otherwise.
+ * @category Functions
+ * @example
+ * const events = reshuffleEvents(hand.discardPile, discardPile);
+ */
+export function reshuffleEvents(before: Card[], after: Card[]): HandEvent[] {
+  return after.length < before.length ? [{ type: "DiscardReshuffled", count: before.length - after.length }] : [];
+}
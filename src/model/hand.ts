@@ -1,5 +1,17 @@
-import { Deck, Card, deal, createInitialDeck, Color } from "./deck";
-import { Shuffler, standardShuffler } from "../utils/random_utils";
+import { Deck, Card, deal, createInitialDeck, createTwoSidedDeck, takeCards, Color, Type, colors, darkColors } from "./deck";
+import { Randomizer, Shuffler, standardRandomizer, standardShuffler } from "../utils/random_utils";
+import { RuleSet, createRules, deckCount } from "./rules";
+import { cardType, giveCards, nextPlayer, penalize } from "./card_types";
+import { HandEvent, emit, reshuffleEvents } from "./events";
+import {
+  GameOverError,
+  IllegalActionError,
+  IllegalPlayError,
+  InvalidPlayerError,
+  InvalidSetupError,
+  Result,
+  attempt
+} from "./errors";
 
 /**
  * Represents the state of a hand in the game.
@@ -12,10 +24,18 @@ import { Shuffler, standardShuffler } from "../utils/random_utils";
  * @property {Card[]} discardPile - The discard pile of cards.
  * @property {number} dealer - The index of the dealer.
  * @property {number} [playerInTurn] - The index of the player whose turn it is.
- * @property {Color} currentColor - The current color in play.
+ * @property {Color} [currentColor] - The current color in play. Undefined while the first player has yet to choose the color of a wild first card.
  * @property {1 | -1} direction - The direction of play (1 for clockwise, -1 for counterclockwise).
- * @property {Set<number>} saidUno - The set of players who have said "UNO".
+ * @property {Set<number>} saidUno - The set of players who have said "UNO". A declaration is dropped when the player's hand grows, or when they play and still hold more than one card.
+ * @property {number} [unoCatchable] - The player who has just played down to one card, and may be caught for not saying "UNO" until the next action.
+ * @property {number} pendingDraw - The number of cards the player in turn must draw unless they stack another draw card.
+ * @property {WildDrawChallenge} [wildDrawChallenge] - The WILD DRAW the player in turn may challenge, if any.
+ * @property {number} [drawnCardIdx] - The index of the card just drawn by the player in turn, who must now play it or pass.
+ * @property {"light" | "dark"} side - The side of the cards in play. Only two-sided cards have a dark side.
+ * @property {RuleSet} rules - The rules in effect for this hand.
+ * @property {HandEvent[]} events - Everything that has happened in the hand so far, oldest first.
  * @property {Shuffler<Card>} _shuffler - The shuffler function used to shuffle the cards.
+ * @property {Randomizer} _randomizer - The randomizer function deciding how many cards the launcher ejects.
  * @category Types
  */
 export interface Hand {
@@ -26,10 +46,35 @@ export interface Hand {
   discardPile: Card[];
   dealer: number;
   playerInTurn?: number;
-  currentColor: Color;
+  currentColor?: Color;
   direction: 1 | -1;
   saidUno: Set<number>;
+  unoCatchable?: number;
+  pendingDraw: number;
+  wildDrawChallenge?: WildDrawChallenge;
+  drawnCardIdx?: number;
+  side: "light" | "dark";
+  rules: RuleSet;
+  events: HandEvent[];
   _shuffler: Shuffler<Card>;
+  _randomizer: Randomizer;
+}
+
+/**
+ * Represents a WILD DRAW that can be challenged, as recorded when it was played.
+ * 
+ * @interface WildDrawChallenge
+ * @property {number} offender - The index of the player who played the WILD DRAW.
+ * @property {Color} previousColor - The current color before the WILD DRAW was played.
+ * @property {Card[]} offenderHand - The cards the offender held after playing the WILD DRAW.
+ * @property {number} penalty - The number of cards the WILD DRAW added to the pending penalty, for every card played at once.
+ * @category Types
+ */
+export interface WildDrawChallenge {
+  offender: number;
+  previousColor: Color;
+  offenderHand: Card[];
+  penalty: number;
 }
 
 /**
@@ -45,6 +90,124 @@ export interface UnoAction {
   accused: number;
 }
 
+/**
+ * Represents the outcome of accusing a player of not saying "UNO".
+ * 
+ * @interface AccusationResult
+ * @property {Hand} hand - The new state of the hand after the accusation.
+ * @property {"caught" | "falseAccusation"} outcome - Whether the accused was caught, or the accusation was false.
+ * @property {number} drawn - The number of cards drawn as a penalty, by the accused if caught and by the accuser otherwise.
+ * @category Types
+ */
+export interface AccusationResult {
+  hand: Hand;
+  outcome: "caught" | "falseAccusation";
+  drawn: number;
+}
+
+/**
+ * Represents the outcome of drawing cards.
+ * 
+ * @interface DrawResult
+ * @property {Hand} hand - The new state of the hand after drawing.
+ * @property {number} drawn - The number of cards actually drawn.
+ * @category Types
+ */
+export interface DrawResult {
+  hand: Hand;
+  drawn: number;
+}
+
+/**
+ * Type alias for a function that gives the point value of a card.
+ * 
+ * @typedef {function} CardValue
+ * @param {Card} card - The card to value.
+ * @returns {number} The point value of the card.
+ * @category Types
+ */
+export type CardValue = (card: Card) => number;
+
+/**
+ * Describes how the cards of a finished hand are scored.
+ * 
+ * @interface ScoringRules
+ * @property {CardValue} cardValue - The point value of each card left in a hand.
+ * @property {CardValue} goingOutBonus - The bonus the winner gets for the card they went out on.
+ * @property {number[][]} [teams] - The players of each team, if playing in teams. The winner's partners are not scored.
+ * @category Types
+ */
+export interface ScoringRules {
+  cardValue: CardValue;
+  goingOutBonus: CardValue;
+  teams?: number[][];
+}
+
+/**
+ * Represents where the score of a finished hand came from.
+ * 
+ * @interface ScoreBreakdown
+ * @property {number} winner - The index of the winning player.
+ * @property {{ player: number; points: number }[]} opponents - The points of the cards left in each opponent's hand.
+ * @property {number} bonus - The bonus for the card the winner went out on.
+ * @property {number} total - The total score for the hand.
+ * @category Types
+ */
+export interface ScoreBreakdown {
+  winner: number;
+  opponents: { player: number; points: number }[];
+  bonus: number;
+  total: number;
+}
+
+/**
+ * A move in a hand, as plain data that can be stored or sent over the network. Each kind of move
+ * stands for the function of the same name, see `applyMove`.
+ * 
+ * @typedef {object} Move
+ * @property {"play" | "playMany" | "draw" | "pass" | "jumpIn" | "chooseStartColor" | "challenge" | "acceptPenalty" | "sayUno" | "catchUno" | "accuseUno"} type - The kind of move.
+ * @category Types
+ */
+export type Move =
+  | { type: "play"; cardIdx: number; color?: Color; target?: number }
+  | { type: "playMany"; cardIdxs: number[]; color?: Color; target?: number }
+  | { type: "draw" }
+  | { type: "pass" }
+  | { type: "jumpIn"; player: number; cardIdx: number; target?: number }
+  | { type: "chooseStartColor"; color: Color }
+  | { type: "challenge" }
+  | { type: "acceptPenalty" }
+  | { type: "sayUno"; player: number }
+  | { type: "catchUno"; accuser: number; accused: number }
+  | { type: "accuseUno"; accuser: number; accused: number };
+
+/**
+ * Explains why a card cannot be played, see `explainPlay`.
+ * 
+ * @typedef {object} PlayRejection
+ * @property {"handOver" | "notYourTurn" | "indexOutOfRange" | "startColorPending" | "drawPending" | "notDrawnCard" | "holdsCurrentColor" | "colorMismatch" | "numberMismatch" | "notPlayable" | "noCards" | "repeatedCard" | "notSameKind"} reason - Why the card cannot be played:
+ * the hand is over, the player is not in turn, there is no such card, the color of a wild first card is still to be chosen,
+ * a draw penalty is pending and the card cannot be stacked on it, only the card just drawn may be played,
+ * a WILD DRAW cannot be played while holding a card of the current color, the card matches neither the color nor the type of the top card,
+ * a numbered card matches neither the color nor the number of the top card, or the card type doesn't allow it for another reason.
+ * When playing several cards at once, also: no card was given, a card was given twice, or a later card is not of the same kind as the first.
+ * @category Types
+ */
+export type PlayRejection =
+  | { reason: "handOver" }
+  | { reason: "notYourTurn"; player: number; playerInTurn: number }
+  | { reason: "indexOutOfRange"; cardIdx: number; handSize: number }
+  | { reason: "startColorPending" }
+  | { reason: "drawPending"; card: Card; pendingDraw: number }
+  | { reason: "notDrawnCard"; card: Card; drawnCardIdx: number }
+  | { reason: "holdsCurrentColor"; card: Card; currentColor: Color }
+  | { reason: "colorMismatch"; card: Card; currentColor: Color; topCard: Card }
+  | { reason: "numberMismatch"; card: Card; currentColor: Color; topCard: Card }
+  | { reason: "notPlayable"; card: Card }
+  | { reason: "noCards" }
+  | { reason: "repeatedCard"; card: Card; cardIdx: number }
+  | { reason: "notSameKind"; card: Card; first: Card };
+
 /**
  * Type alias for a function that performs an action on a hand.
  * 
@@ -62,8 +225,10 @@ export type Action = (hand: Hand) => Hand;
  * @param {number} dealer - The index of the dealer.
  * @param {Shuffler<Card>} [shuffler=standardShuffler] - The shuffler function used to shuffle the cards.
  * @param {number} [cardsPerPlayer=7] - The number of cards dealt to each player.
+ * @param {Partial<RuleSet>} [rules={}] - The rules in effect for the hand, on top of the standard rules.
+ * @param {Randomizer} [randomizer=standardRandomizer] - The randomizer function deciding how many cards the launcher ejects.
  * @returns {Hand} The initial state of the hand.
- * @throws {Error} If the number of players is less than 2 or more than 10.
+ * @throws {InvalidSetupError} If the number of players is less than 2 or more than 10 per deck, or there are too few cards to deal.
  * @category Functions
  * @example
  * const hand = createHand(['Alice', 'Bob'], 0);
@@ -72,13 +237,25 @@ export function createHand(
   players: string[],
   dealer: number,
   shuffler: Shuffler<Card> = standardShuffler,
-  cardsPerPlayer: number = 7
+  cardsPerPlayer: number = 7,
+  rules: Partial<RuleSet> = {},
+  randomizer: Randomizer = standardRandomizer
 ): Hand {
-  if (players.length < 2 || players.length > 10) {
-    throw new Error("Invalid number of players");
+  const ruleSet = createRules(rules);
+  const decks = deckCount(ruleSet, players.length);
+
+  if (players.length < 2 || players.length > 10 * decks) {
+    throw new InvalidSetupError("Invalid number of players");
   }
 
-  let deck = shuffler(createInitialDeck());
+  let deck = shuffler(
+    ruleSet.darkDeck
+      ? createTwoSidedDeck(ruleSet.deck, ruleSet.darkDeck, decks)
+      : createInitialDeck(ruleSet.deck, decks)
+  );
+  if (players.length * cardsPerPlayer >= deck.length) {
+    throw new InvalidSetupError("Not enough cards to deal");
+  }
   const hands: Card[][] = [];
   let remainingDeck = [...deck];
 
@@ -93,350 +270,1156 @@ export function createHand(
   let [discard, drawPile] = deal(remainingDeck, 1);
 
   // Reshuffle if wild card on top
-  while (discard[0].type === "WILD" || discard[0].type === "WILD DRAW") {
+  while (cardType(discard[0].type).wild) {
+    if (ruleSet.startingWild === "official") {
+      // A wild draw card is shuffled back into the draw pile, while the color of a plain wild card is left to the first player
+      if (cardType(discard[0].type).penalty === undefined) break;
+      [discard, drawPile] = deal(shuffler([...drawPile, discard[0]]), 1);
+      continue;
+    }
+    if (ruleSet.startingWild === "replace") {
+      // Put the wild card under the draw pile and turn the next card
+      [discard, drawPile] = deal([...drawPile, discard[0]], 1);
+      continue;
+    }
     deck = shuffler(deck);
     const [newHands, newDeck] = dealHands(deck, players.length, cardsPerPlayer);
     hands.splice(0, hands.length, ...newHands);
     [discard, drawPile] = deal(newDeck, 1);
   }
 
-  // Determine initial player and direction
-  let initialPlayer = (dealer + 1) % players.length;
-  let direction: -1 | 1 = 1;
-
-  if (discard[0].type === "REVERSE") {
-    direction = -1;
-    initialPlayer = (dealer - 1 + players.length) % players.length;
-  } else if (discard[0].type === "SKIP") {
-    initialPlayer = (dealer + 2) % players.length;
-  } else if (discard[0].type === "DRAW") {
-    const nextPlayer = (dealer + 1) % players.length;
-    hands[nextPlayer].push(...drawPile.slice(0, 2));
-    drawPile = drawPile.slice(2);
-    initialPlayer = (dealer + 2) % players.length;
-  }
-
-  return {
+  const dealt: Hand = {
     playerCount: players.length,
     players,
     hands,
     drawPile,
     discardPile: discard,
     dealer,
-    playerInTurn: initialPlayer,
-    currentColor: discard[0].color!,
-    direction,
+    playerInTurn: dealer,
+    currentColor: discard[0].color,
+    direction: 1,
     saidUno: new Set(),
-    _shuffler: shuffler
+    pendingDraw: 0,
+    side: "light",
+    rules: ruleSet,
+    events: [],
+    _shuffler: shuffler,
+    _randomizer: randomizer
+  };
+
+  // The first card acts as if the dealer had played it, so the player to the left of the dealer begins
+  // unless its card type says otherwise. Numbered cards have no effect here, not even under Seven-O,
+  // and a wild first card is left to the starting wild rule.
+  const type = cardType(discard[0].type);
+  if (discard[0].type === "NUMBERED" || type.wild) {
+    return { ...dealt, playerInTurn: nextPlayer(dealt) };
+  }
+  return type.effect(dealt, { card: discard[0], player: dealer, count: 1 });
+}
+
+/**
+ * Chooses the color of a wild first card, as the first player does under the official rules.
+ * Until the color is chosen, no card can be played or drawn.
+ * 
+ * @param {Color} color - The chosen color.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Hand} The new state of the hand with the color chosen.
+ * @throws {IllegalActionError} If there is no start color to choose or the color is not one of the side in play.
+ * @category Functions
+ * @example
+ * const newHand = chooseStartColor('GREEN', hand);
+ */
+export function chooseStartColor(color: Color, hand: Hand): Hand {
+  if (hand.playerInTurn === undefined || hand.currentColor !== undefined) {
+    throw new IllegalActionError("No start color to choose", "chooseStartColor", hand.playerInTurn);
+  }
+  if (!palette(hand).includes(color)) {
+    throw new IllegalActionError(`Cannot choose ${color} on the ${hand.side} side`, "chooseStartColor", hand.playerInTurn);
+  }
+
+  return afterAction(hand, emit({ ...hand, currentColor: color }, { type: "ColorChosen", player: hand.playerInTurn, color }));
+}
+
+/**
+ * Checks if a card can be played by the player in turn. See `explainPlay` for why a card cannot be played.
+ * 
+ * @param {number} cardIdx - The index of the card in the player's hand.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {boolean} True if the card can be played, false otherwise.
+ * @category Functions
+ * @example
+ * const canPlayCard = canPlay(0, hand);
+ */
+export function canPlay(cardIdx: number, hand: Hand): boolean {
+  return explainPlay(cardIdx, hand) === undefined;
+}
+
+/**
+ * Explains why a card cannot be played. This is the single place the rules of playing a card are checked;
+ * playing several cards at once only adds checks on the cards after the first.
+ * 
+ * @param {number} cardIdx - The index of the card in the player's hand.
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} [player] - The player who wants to play the card. Defaults to the player in turn.
+ * @returns {PlayRejection | undefined} Why the card cannot be played, or undefined if it can.
+ * @category Functions
+ * @example
+ * const rejection = explainPlay(0, hand);
+ * if (rejection?.reason === 'holdsCurrentColor') console.log(`You still have a ${rejection.currentColor} card`);
+ */
+export function explainPlay(cardIdx: number, hand: Hand, player: number | undefined = hand.playerInTurn): PlayRejection | undefined {
+  if (hand.playerInTurn === undefined) {
+    return { reason: "handOver" };
+  }
+  if (player !== undefined && player !== hand.playerInTurn) {
+    return { reason: "notYourTurn", player, playerInTurn: hand.playerInTurn };
+  }
+
+  const playerHand = hand.hands[hand.playerInTurn];
+  if (!Number.isInteger(cardIdx) || cardIdx < 0 || cardIdx >= playerHand.length) {
+    return { reason: "indexOutOfRange", cardIdx, handSize: playerHand.length };
+  }
+  if (hand.currentColor === undefined) {
+    return { reason: "startColorPending" };
+  }
+
+  const card = playerHand[cardIdx];
+
+  // While a draw penalty is pending, only stacking another draw card is allowed
+  if (hand.pendingDraw > 0) {
+    return canStack(card, hand) ? undefined : { reason: "drawPending", card, pendingDraw: hand.pendingDraw };
+  }
+
+  // Right after drawing, only the drawn card may be played
+  if (hand.drawnCardIdx !== undefined && cardIdx !== hand.drawnCardIdx) {
+    return { reason: "notDrawnCard", card, drawnCardIdx: hand.drawnCardIdx };
+  }
+
+  if (isPlayable(card, hand)) {
+    return undefined;
+  }
+
+  const type = cardType(card.type);
+  const topCard = topOfDiscard(hand);
+  if (type.wild && playerHand.some((c) => c.color === hand.currentColor)) {
+    return { reason: "holdsCurrentColor", card, currentColor: hand.currentColor };
+  }
+  if (card.color !== undefined && card.color !== hand.currentColor) {
+    return card.number !== undefined && topCard.number !== undefined
+      ? { reason: "numberMismatch", card, currentColor: hand.currentColor, topCard }
+      : { reason: "colorMismatch", card, currentColor: hand.currentColor, topCard };
+  }
+  return { reason: "notPlayable", card };
+}
+
+/**
+ * Describes a rejected play in words, for error messages.
+ * 
+ * @function describeRejection
+ * @param {PlayRejection} rejection - Why the card cannot be played.
+ * @returns {string} The description.
+ * @category Functions
+ */
+function describeRejection(rejection: PlayRejection): string {
+  switch (rejection.reason) {
+    case "handOver":
+      return "the hand is over";
+    case "notYourTurn":
+      return `it is player ${rejection.playerInTurn}'s turn, not player ${rejection.player}'s`;
+    case "indexOutOfRange":
+      return `there is no card ${rejection.cardIdx} in a hand of ${rejection.handSize} cards`;
+    case "startColorPending":
+      return "the start color must be chosen first";
+    case "drawPending":
+      return `${cardName(rejection.card)} cannot be stacked on the ${rejection.pendingDraw} cards to draw`;
+    case "notDrawnCard":
+      return `only the card just drawn may be played, not ${cardName(rejection.card)}`;
+    case "holdsCurrentColor":
+      return `${cardName(rejection.card)} cannot be played while holding a ${rejection.currentColor} card`;
+    case "colorMismatch":
+      return `${cardName(rejection.card)} matches neither ${rejection.currentColor} nor ${cardName(rejection.topCard)}`;
+    case "numberMismatch":
+      return `${cardName(rejection.card)} matches neither the color ${rejection.currentColor} nor the number ${rejection.topCard.number}`;
+    case "notPlayable":
+      return `${cardName(rejection.card)} cannot be played now`;
+    case "noCards":
+      return "no card was given to play";
+    case "repeatedCard":
+      return `${cardName(rejection.card)} cannot be played twice`;
+    case "notSameKind":
+      return `${cardName(rejection.card)} is not the same kind of card as ${cardName(rejection.first)}`;
+  }
+}
+
+/**
+ * Names a card for messages, such as "BLUE 7", "RED SKIP" or "WILD DRAW".
+ * 
+ * @function cardName
+ * @param {Card} card - The card to name.
+ * @returns {string} The name of the card.
+ * @category Functions
+ */
+function cardName(card: Card): string {
+  return [card.color, card.type === "NUMBERED" ? card.number : card.type].filter((part) => part !== undefined).join(" ");
+}
+
+/**
+ * Checks if any card in the player's hand can be played.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {boolean} True if any card can be played, false otherwise.
+ * @category Functions
+ * @example
+ * const canPlayAnyCard = canPlayAny(hand);
+ */
+export function canPlayAny(hand: Hand): boolean {
+  if (hand.playerInTurn === undefined) return false;
+
+  return hand.hands[hand.playerInTurn].some((_, cardIdx) => canPlay(cardIdx, hand));
+}
+
+/**
+ * Gets the top card of the discard pile.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Card} The top card of the discard pile.
+ * @category Functions
+ * @example
+ * const topCard = topOfDiscard(hand);
+ */
+export function topOfDiscard(hand: Hand): Card {
+  return hand.discardPile[hand.discardPile.length - 1];
+}
+
+/**
+ * Checks if a card can be stacked on a pending draw penalty.
+ * 
+ * A wild draw card can be stacked on any draw card, while a colored draw card can only be stacked on one of its own type.
+ * 
+ * @function canStack
+ * @param {Card} card - The card to check.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {boolean} True if the card can be stacked, false otherwise.
+ * @category Functions
+ */
+function canStack(card: Card, hand: Hand): boolean {
+  const type = cardType(card.type);
+  if (!hand.rules.stacking || type.penalty === undefined) return false;
+  return type.wild || card.type === topOfDiscard(hand).type;
+}
+
+/**
+ * Checks if a card held by the player in turn matches the discard pile, by the rules of its card type.
+ * 
+ * @function isPlayable
+ * @param {Card} card - The card to check.
+ * @param {Hand} hand - The current state of the hand, with the card in the hand of the player in turn.
+ * @returns {boolean} True if the card can be played, false otherwise.
+ * @category Functions
+ */
+function isPlayable(card: Card, hand: Hand): boolean {
+  return cardType(card.type).playable(card, hand);
+}
+
+/**
+ * Plays a card from the player's hand.
+ * 
+ * What the card does is defined by its card type, see `registerCardType`.
+ * 
+ * @param {number} cardIdx - The index of the card in the player's hand.
+ * @param {Color} [chosenColor] - The chosen color for wild cards.
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} [target] - The opponent a targeted card is aimed at, such as a 7 under the Seven-O rule.
+ * @returns {Hand} The new state of the hand after the card is played.
+ * @throws {GameOverError | IllegalPlayError | InvalidPlayerError} If the card cannot be played or the target is missing or invalid.
+ * @category Functions
+ * @example
+ * const newHand = play(0, 'RED', hand);
+ * const swappedHand = play(3, undefined, hand, 2);
+ */
+export function play(
+  cardIdx: number,
+  chosenColor: Color | undefined,
+  hand: Hand,
+  // Defaulted so that play.length stays 3 and curried callers are unaffected
+  target: number | undefined = undefined
+): Hand {
+  return playCards([cardIdx], chosenColor, hand, target);
+}
+
+/**
+ * Plays several identical cards from the player's hand in one turn.
+ * 
+ * The first card must be playable by the normal rules, and every later card must have the same type and number.
+ * The cards are discarded in the given order, so the color ends on the last card. Their effects add up:
+ * two SKIPs skip two players, and two DRAWs make the next player draw twice as many cards.
+ * 
+ * @param {number[]} cardIdxs - The indices of the cards in the player's hand, in the order they are played.
+ * @param {Color} [chosenColor] - The chosen color for wild cards.
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} [target] - The opponent a targeted card is aimed at, such as a 7 under the Seven-O rule.
+ * @returns {Hand} The new state of the hand after the cards are played.
+ * @throws {GameOverError | IllegalPlayError | InvalidPlayerError} If the cards cannot be played together, or several cards are played without the playMultiple rule.
+ * @category Functions
+ * @example
+ * const newHand = playMany([2, 5], undefined, hand);
+ */
+export function playMany(
+  cardIdxs: number[],
+  chosenColor: Color | undefined,
+  hand: Hand,
+  target: number | undefined = undefined
+): Hand {
+  if (cardIdxs.length > 1 && !hand.rules.playMultiple) {
+    throw new IllegalPlayError("Cannot play several cards at once", { player: hand.playerInTurn });
+  }
+
+  return playCards(cardIdxs, chosenColor, hand, target);
+}
+
+/**
+ * Plays one or more identical cards from the player's hand.
+ * 
+ * @function playCards
+ * @param {number[]} cardIdxs - The indices of the cards in the player's hand, in the order they are played.
+ * @param {Color} [chosenColor] - The chosen color for wild cards.
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} [target] - The opponent a targeted card is aimed at.
+ * @returns {Hand} The new state of the hand after the cards are played.
+ * @throws {GameOverError | IllegalPlayError | InvalidPlayerError} If the cards cannot be played or the target is missing or invalid.
+ * @category Functions
+ */
+function playCards(
+  cardIdxs: number[],
+  chosenColor: Color | undefined,
+  hand: Hand,
+  target: number | undefined
+): Hand {
+  const rejection: PlayRejection | undefined =
+    cardIdxs.length === 0 ? { reason: "noCards" } : explainPlay(cardIdxs[0], hand) ?? explainLaterCards(cardIdxs, hand);
+  if (rejection?.reason === "handOver") {
+    throw new GameOverError();
+  }
+  if (rejection !== undefined) {
+    throw new IllegalPlayError(`Illegal play: ${describeRejection(rejection)}`, {
+      player: hand.playerInTurn,
+      card: "card" in rejection ? rejection.card : undefined,
+      rejection
+    });
+  }
+
+  const currentPlayer = hand.playerInTurn!;
+  const playerHand = hand.hands[currentPlayer];
+  const card = playerHand[cardIdxs[0]];
+  const type = cardType(card.type);
+  const cards = cardIdxs.map((idx) => playerHand[idx]);
+  const lastCard = cards[cards.length - 1];
+
+  // Validate color choice
+  if (type.wild && !chosenColor) {
+    throw new IllegalPlayError("Must specify color for wild card", { player: currentPlayer, card });
+  }
+  if (card.color && chosenColor) {
+    throw new IllegalPlayError("Cannot specify color for colored card", { player: currentPlayer, card });
+  }
+  if (chosenColor && !palette(hand).includes(chosenColor)) {
+    throw new IllegalPlayError(`Cannot choose ${chosenColor} on the ${hand.side} side`, { player: currentPlayer, card });
+  }
+
+  // Validate target
+  const targeted = type.targeted?.(card, hand) ?? false;
+  if (!targeted && target !== undefined) {
+    throw new IllegalPlayError("Cannot specify target for this card", { player: currentPlayer, card });
+  }
+  if (targeted && playerHand.length > cards.length && target === undefined) {
+    throw new IllegalPlayError("Must specify target player", { player: currentPlayer, card });
+  }
+  if (target !== undefined && (target < 0 || target >= hand.playerCount || target === currentPlayer)) {
+    throw new InvalidPlayerError("Invalid target player", target);
+  }
+
+  // Move the cards to the discard pile. Playing ends any draw phase.
+  const newHands = hand.hands.map((h, idx) =>
+    idx === currentPlayer ? h.filter((_, i) => !cardIdxs.includes(i)) : h
+  );
+  const played: Hand = emit(
+    {
+      ...hand,
+      hands: newHands,
+      discardPile: [...hand.discardPile, ...cards],
+      currentColor: chosenColor || lastCard.color || hand.currentColor,
+      drawnCardIdx: undefined
+    },
+    ...cards.map((c): HandEvent => ({ type: "CardPlayed", player: currentPlayer, card: c })),
+    ...(chosenColor ? [{ type: "ColorChosen" as const, player: currentPlayer, color: chosenColor }] : [])
+  );
+  const penalty = (type.penalty?.(hand.rules) ?? 0) * cards.length;
+
+  const challengeable = hand.rules.challengeWildDraw && type.challengeable === true;
+  let result: Hand;
+  if (newHands[currentPlayer].length === 0) {
+    // Going out ends the hand. A draw card still makes the next player draw, along with any stack.
+    const pendingDraw = hand.pendingDraw + penalty;
+    const settled = pendingDraw > 0 ? penalize(played, nextPlayer(played), pendingDraw) : played;
+    result = emit(
+      { ...settled, playerInTurn: undefined, pendingDraw: 0, wildDrawChallenge: undefined },
+      { type: "HandEnded", winner: currentPlayer }
+    );
+  } else if (challengeable || (hand.rules.stacking && penalty > 0)) {
+    // When stacking, draw cards add to the pending penalty of the next player.
+    // A challengeable card is left pending as well, until the next player
+    // either challenges it or accepts the penalty.
+    result = {
+      ...played,
+      playerInTurn: nextPlayer(played),
+      pendingDraw: hand.pendingDraw + penalty,
+      wildDrawChallenge: challengeable
+        ? { offender: currentPlayer, previousColor: hand.currentColor!, offenderHand: newHands[currentPlayer], penalty }
+        : undefined
+    };
+  } else {
+    result = type.effect(played, { card: lastCard, player: currentPlayer, target, count: cards.length });
+  }
+
+  // A declaration of "UNO" only counts for the play that takes the player to one card,
+  // and a missing declaration may be caught until the next action. Cards swapped in under Seven-O
+  // don't make the player catchable, as only their own play can take them to one card.
+  const after = afterAction(hand, result);
+  const holding = after.hands[currentPlayer].length;
+  const playedToOne = playerHand.length - cards.length === 1;
+  return {
+    ...after,
+    saidUno: holding > 1 ? new Set([...after.saidUno].filter((p) => p !== currentPlayer)) : after.saidUno,
+    unoCatchable: holding === 1 && playedToOne ? currentPlayer : undefined
+  };
+}
+
+/**
+ * Explains why the cards after the first cannot be played along with it, see `playMany`.
+ * Every later card must be another card of the same kind, and right after drawing, the drawn card may only be played on its own.
+ * 
+ * @function explainLaterCards
+ * @param {number[]} cardIdxs - The indices of the cards in the player's hand, the first of which can be played.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {PlayRejection | undefined} Why the cards cannot be played together, or undefined if they can.
+ * @category Functions
+ */
+function explainLaterCards(cardIdxs: number[], hand: Hand): PlayRejection | undefined {
+  const playerHand = hand.hands[hand.playerInTurn!];
+  const first = playerHand[cardIdxs[0]];
+
+  for (let i = 1; i < cardIdxs.length; i++) {
+    const cardIdx = cardIdxs[i];
+    const card = playerHand[cardIdx];
+    if (card === undefined) {
+      return { reason: "indexOutOfRange", cardIdx, handSize: playerHand.length };
+    }
+    if (cardIdxs.indexOf(cardIdx) !== i) {
+      return { reason: "repeatedCard", card, cardIdx };
+    }
+    if (!sameKind(card, first)) {
+      return { reason: "notSameKind", card, first };
+    }
+    if (hand.drawnCardIdx !== undefined) {
+      return { reason: "notDrawnCard", card, drawnCardIdx: hand.drawnCardIdx };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks if two cards are of the same kind, so they may be played together.
+ * 
+ * @function sameKind
+ * @param {Card} card - The card to check.
+ * @param {Card} other - The card to compare with.
+ * @returns {boolean} True if the cards have the same type and number, false otherwise.
+ * @category Functions
+ */
+function sameKind(card: Card, other: Card): boolean {
+  return card.type === other.type && card.number === other.number;
+}
+
+/**
+ * Keeps track of "UNO" after an action: declarations are dropped for every player whose hand has grown,
+ * and the window for catching a missing declaration closes.
+ * 
+ * @function afterAction
+ * @param {Hand} before - The state of the hand before the action.
+ * @param {Hand} after - The state of the hand after the action.
+ * @returns {Hand} The state of the hand after the action, with "UNO" kept track of.
+ * @category Functions
+ */
+function afterAction(before: Hand, after: Hand): Hand {
+  return {
+    ...after,
+    saidUno: new Set([...after.saidUno].filter((p) => after.hands[p].length <= before.hands[p].length)),
+    unoCatchable: undefined
+  };
+}
+
+/**
+ * Checks if a player can jump in with a card.
+ * 
+ * Jumping in requires the jump-in rule and a colored card identical to the top of the discard pile.
+ * It is not possible while a draw penalty is pending.
+ * 
+ * @param {number} player - The index of the player jumping in.
+ * @param {number} cardIdx - The index of the card in the player's hand.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {boolean} True if the player can jump in with the card, false otherwise.
+ * @category Functions
+ * @example
+ * const canJump = canJumpIn(2, 0, hand);
+ */
+export function canJumpIn(player: number, cardIdx: number, hand: Hand): boolean {
+  if (
+    !hand.rules.jumpIn ||
+    hand.playerInTurn === undefined ||
+    hand.pendingDraw > 0 ||
+    player < 0 ||
+    player >= hand.playerCount ||
+    cardIdx < 0 ||
+    cardIdx >= hand.hands[player].length
+  ) {
+    return false;
+  }
+
+  const card = hand.hands[player][cardIdx];
+  const topCard = topOfDiscard(hand);
+
+  return (
+    card.color !== undefined &&
+    card.color === topCard.color &&
+    card.type === topCard.type &&
+    card.number === topCard.number
+  );
+}
+
+/**
+ * Plays a card out of turn by jumping in. Play continues from the jumping player.
+ * 
+ * @param {number} player - The index of the player jumping in.
+ * @param {number} cardIdx - The index of the card in the player's hand.
+ * @param {Hand} hand - The current state of the hand.
+ * @param {number} [target] - The opponent to swap hands with when jumping in with a 7 under the Seven-O rule.
+ * @returns {Hand} The new state of the hand after the card is played.
+ * @throws {IllegalPlayError} If the player cannot jump in with the card.
+ * @category Functions
+ * @example
+ * const newHand = jumpIn(2, 0, hand);
+ */
+export function jumpIn(
+  player: number,
+  cardIdx: number,
+  hand: Hand,
+  target: number | undefined = undefined
+): Hand {
+  if (!canJumpIn(player, cardIdx, hand)) {
+    throw new IllegalPlayError("Illegal jump-in", { player, card: hand.hands[player]?.[cardIdx] });
+  }
+
+  return play(cardIdx, undefined, { ...hand, playerInTurn: player, drawnCardIdx: undefined }, target);
+}
+
+/**
+ * Draws a card from the draw pile.
+ * 
+ * If a draw penalty is pending, the player instead draws the whole stack and the turn passes.
+ * Under the "untilPlayable" draw mode, the player draws until a playable card turns up.
+ * Under the "launcher" draw mode, the player fires the launcher instead.
+ * With explicit passing, the player keeps the turn until they play the drawn card or pass.
+ * If both the draw pile and the discard pile are exhausted, nothing is drawn and the turn passes.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Hand} The new state of the hand after drawing a card.
+ * @throws {GameOverError | IllegalActionError} If the game is over, the start color is still to be chosen or the player has already drawn.
+ * @category Functions
+ * @example
+ * const newHand = draw(hand);
+ */
+export function draw(hand: Hand): Hand {
+  if (hand.playerInTurn === undefined) {
+    throw new GameOverError();
+  }
+
+  if (hand.currentColor === undefined) {
+    throw new IllegalActionError("Must choose a start color", "draw", hand.playerInTurn);
+  }
+
+  if (hand.pendingDraw > 0) {
+    return drawPenalty(hand);
+  }
+
+  if (hand.drawnCardIdx !== undefined) {
+    throw new IllegalActionError("Already drawn", "draw", hand.playerInTurn);
+  }
+
+  if (hand.rules.drawMode === "untilPlayable") {
+    return drawUntilPlayable(hand).hand;
+  }
+
+  if (hand.rules.drawMode === "launcher") {
+    return fireLauncher(hand).hand;
+  }
+
+  const currentPlayer = hand.playerInTurn;
+
+  // The draw pile ran out while the discard pile had nothing to reshuffle
+  if (hand.drawPile.length === 0) {
+    if (hand.discardPile.length > 1) {
+      const topCard = hand.discardPile[hand.discardPile.length - 1];
+      return draw(emit(
+        { ...hand, drawPile: hand._shuffler(hand.discardPile.slice(0, -1)), discardPile: [topCard] },
+        ...reshuffleEvents(hand.discardPile, [topCard])
+      ));
+    }
+    // Both piles are exhausted, so there is nothing to draw
+    return afterAction(hand, { ...hand, ...turnAfterDraw(hand, hand.hands[currentPlayer], false) });
+  }
+
+  const drawnCard = hand.drawPile[0];
+
+  // Add drawn card to player's hand
+  const newHands = [...hand.hands];
+  newHands[currentPlayer] = [...newHands[currentPlayer], drawnCard];
+
+  // Check if this was the last card in draw pile
+  if (hand.drawPile.length === 1) {
+    // Keep top card of discard
+    const topCard = hand.discardPile[hand.discardPile.length - 1];
+
+    // Shuffle rest of discard pile to make new draw pile
+    const cardsToShuffle = hand.discardPile.slice(0, -1);
+    const newDrawPile = hand._shuffler(cardsToShuffle);
+
+    // Check if drawn card can be played
+    const canPlayDrawn = isPlayable(drawnCard, { ...hand, hands: newHands });
+
+    return afterAction(hand, emit(
+      {
+        ...hand,
+        hands: newHands,
+        drawPile: newDrawPile,
+        discardPile: [topCard],
+        ...turnAfterDraw(hand, newHands[currentPlayer], canPlayDrawn),
+        _shuffler: hand._shuffler
+      },
+      { type: "CardDrawn", player: currentPlayer, card: drawnCard },
+      ...reshuffleEvents(hand.discardPile, [topCard])
+    ));
+  }
+
+  // Normal case - still cards in draw pile
+  const canPlayDrawn = isPlayable(drawnCard, { ...hand, hands: newHands });
+
+  return afterAction(hand, emit(
+    {
+      ...hand,
+      hands: newHands,
+      drawPile: hand.drawPile.slice(1),
+      ...turnAfterDraw(hand, newHands[currentPlayer], canPlayDrawn),
+      _shuffler: hand._shuffler
+    },
+    { type: "CardDrawn", player: currentPlayer, card: drawnCard }
+  ));
+}
+
+/**
+ * Decides who is in turn after the player in turn has drawn.
+ * 
+ * @function turnAfterDraw
+ * @param {Hand} hand - The state of the hand before drawing.
+ * @param {Card[]} playerHand - The player's cards after drawing.
+ * @param {boolean} playable - Whether the last drawn card can be played.
+ * @returns {Pick<Hand, "playerInTurn" | "drawnCardIdx">} The player in turn and the draw phase after drawing.
+ * @category Functions
+ */
+function turnAfterDraw(
+  hand: Hand,
+  playerHand: Card[],
+  playable: boolean
+): Pick<Hand, "playerInTurn" | "drawnCardIdx"> {
+  const currentPlayer = hand.playerInTurn!;
+  const nextPlayer = (currentPlayer + hand.direction + hand.playerCount) % hand.playerCount;
+  const drewAny = playerHand.length > hand.hands[currentPlayer].length;
+
+  if (!hand.rules.playDrawnCard || !drewAny) {
+    return { playerInTurn: nextPlayer, drawnCardIdx: undefined };
+  }
+  if (hand.rules.explicitPass) {
+    return { playerInTurn: currentPlayer, drawnCardIdx: playerHand.length - 1 };
+  }
+  return { playerInTurn: playable ? currentPlayer : nextPlayer, drawnCardIdx: undefined };
+}
+
+/**
+ * Ends the turn of a player who has drawn without playing the drawn card.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Hand} The new state of the hand with the next player in turn.
+ * @throws {GameOverError | IllegalActionError} If the game is over or the player in turn hasn't just drawn a card.
+ * @category Functions
+ * @example
+ * const newHand = pass(draw(hand));
+ */
+export function pass(hand: Hand): Hand {
+  if (hand.playerInTurn === undefined) {
+    throw new GameOverError();
+  }
+  if (hand.drawnCardIdx === undefined) {
+    throw new IllegalActionError("Cannot pass without drawing", "pass", hand.playerInTurn);
+  }
+
+  return afterAction(hand, {
+    ...hand,
+    playerInTurn: (hand.playerInTurn + hand.direction + hand.playerCount) % hand.playerCount,
+    drawnCardIdx: undefined
+  });
+}
+
+/**
+ * Draws cards until a playable card turns up.
+ * 
+ * The discard pile is reshuffled into the draw pile as often as needed. If both piles run out
+ * before a playable card is found, drawing stops and the turn passes.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {DrawResult} The new state of the hand and the number of cards drawn.
+ * @throws {GameOverError | IllegalActionError} If the game is over or the start color is still to be chosen.
+ * @category Functions
+ * @example
+ * const { hand: newHand, drawn } = drawUntilPlayable(hand);
+ */
+export function drawUntilPlayable(hand: Hand): DrawResult {
+  if (hand.playerInTurn === undefined) {
+    throw new GameOverError();
+  }
+
+  if (hand.currentColor === undefined) {
+    throw new IllegalActionError("Must choose a start color", "draw", hand.playerInTurn);
+  }
+
+  const currentPlayer = hand.playerInTurn;
+
+  if (hand.pendingDraw > 0) {
+    const newHand = drawPenalty(hand);
+    return { hand: newHand, drawn: newHand.hands[currentPlayer].length - hand.hands[currentPlayer].length };
+  }
+
+  if (hand.drawnCardIdx !== undefined) {
+    throw new IllegalActionError("Already drawn", "draw", hand.playerInTurn);
+  }
+
+  let playerHand = hand.hands[currentPlayer];
+  let drawPile = hand.drawPile;
+  let discardPile = hand.discardPile;
+  let drawn = 0;
+  let playable = false;
+  const events: HandEvent[] = [];
+
+  while (!playable) {
+    const [drawnCards, newDrawPile, newDiscardPile] = takeCards(1, drawPile, discardPile, hand._shuffler);
+    events.push(...reshuffleEvents(discardPile, newDiscardPile));
+    drawPile = newDrawPile;
+    discardPile = newDiscardPile;
+
+    // Both piles are exhausted
+    if (drawnCards.length === 0) break;
+
+    playerHand = [...playerHand, drawnCards[0]];
+    drawn++;
+    events.push({ type: "CardDrawn", player: currentPlayer, card: drawnCards[0] });
+    playable = isPlayable(drawnCards[0], { ...hand, hands: hand.hands.map((h, idx) => (idx === currentPlayer ? playerHand : h)) });
+  }
+
+  const newHands = [...hand.hands];
+  newHands[currentPlayer] = playerHand;
+
+  return {
+    hand: afterAction(hand, emit(
+      {
+        ...hand,
+        hands: newHands,
+        drawPile,
+        discardPile,
+        ...turnAfterDraw(hand, playerHand, playable)
+      },
+      ...events
+    )),
+    drawn
   };
 }
 
 /**
- * Checks if a card can be played.
+ * Fires the launcher, which ejects a random number of cards, possibly none, at the player in turn.
+ * 
+ * The discard pile is reshuffled into the draw pile if it runs short. If both piles run out,
+ * the player gets the cards that are left. As in UNO Attack, the turn passes whatever the launcher ejects.
  * 
- * @param {number} cardIdx - The index of the card in the player's hand.
  * @param {Hand} hand - The current state of the hand.
- * @returns {boolean} True if the card can be played, false otherwise.
+ * @returns {DrawResult} The new state of the hand and the number of cards ejected.
+ * @throws {GameOverError | IllegalActionError} If the game is over or the start color is still to be chosen.
  * @category Functions
  * @example
- * const canPlayCard = canPlay(0, hand);
+ * const { hand: newHand, drawn } = fireLauncher(hand);
  */
-export function canPlay(cardIdx: number, hand: Hand): boolean {
-  if (
-    cardIdx < 0 ||
-    cardIdx >= hand.hands[hand.playerInTurn!]?.length ||
-    hand.playerInTurn === undefined
-  ) {
-    return false;
+export function fireLauncher(hand: Hand): DrawResult {
+  if (hand.playerInTurn === undefined) {
+    throw new GameOverError();
   }
 
-  const playerHand = hand.hands[hand.playerInTurn];
-  const card = playerHand[cardIdx];
-  const topCard = topOfDiscard(hand);
-
-  // Handle wild cards
-  if (card.type === "WILD") {
-    return true;
+  if (hand.currentColor === undefined) {
+    throw new IllegalActionError("Must choose a start color", "draw", hand.playerInTurn);
   }
 
-  if (card.type === "WILD DRAW") {
-    return !playerHand.some((c) => c.color === hand.currentColor);
-  }
+  const currentPlayer = hand.playerInTurn;
 
-  // Handle reverse cards - can play if either same color or it's another reverse
-  if (card.type === "REVERSE") {
-    return card.color === hand.currentColor || topCard.type === "REVERSE";
+  if (hand.pendingDraw > 0) {
+    const newHand = drawPenalty(hand);
+    return { hand: newHand, drawn: newHand.hands[currentPlayer].length - hand.hands[currentPlayer].length };
   }
 
-  // Handle other action cards (SKIP, DRAW)
-  if (card.type === "SKIP" || card.type === "DRAW") {
-    return card.color === hand.currentColor || card.type === topCard.type;
+  if (hand.drawnCardIdx !== undefined) {
+    throw new IllegalActionError("Already drawn", "draw", hand.playerInTurn);
   }
 
-  // Handle numbered cards
-  if (card.type === "NUMBERED") {
-    return (
-      card.color === hand.currentColor ||
-      (topCard.type === "NUMBERED" && card.number === topCard.number)
-    );
-  }
+  const count = hand._randomizer(hand.rules.launcherMax + 1);
+  const given = count > 0 ? giveCards(hand, currentPlayer, count) : hand;
+  const ejected = emit(
+    given,
+    ...given.hands[currentPlayer]
+      .slice(hand.hands[currentPlayer].length)
+      .map((card): HandEvent => ({ type: "CardDrawn", player: currentPlayer, card }))
+  );
 
-  return false;
+  return {
+    hand: afterAction(hand, { ...ejected, playerInTurn: nextPlayer(hand) }),
+    drawn: ejected.hands[currentPlayer].length - hand.hands[currentPlayer].length
+  };
 }
 
 /**
- * Checks if any card in the player's hand can be played.
+ * Draws the pending penalty for the player in turn and passes the turn on.
  * 
+ * @function drawPenalty
  * @param {Hand} hand - The current state of the hand.
- * @returns {boolean} True if any card can be played, false otherwise.
+ * @returns {Hand} The new state of the hand after the penalty is drawn.
+ * @category Functions
+ */
+function drawPenalty(hand: Hand): Hand {
+  const currentPlayer = hand.playerInTurn!;
+  const penalized = penalize(hand, currentPlayer, hand.pendingDraw);
+
+  return afterAction(hand, {
+    ...penalized,
+    playerInTurn: (currentPlayer + hand.direction + hand.playerCount) % hand.playerCount,
+    pendingDraw: 0,
+    wildDrawChallenge: undefined
+  });
+}
+
+/**
+ * Challenges the WILD DRAW played at the player in turn.
+ * 
+ * If the offender held a card of the previous color, they draw the penalty of the WILD DRAWs they played instead and the challenger
+ * keeps the turn. Otherwise the challenger draws the pending penalty plus 2 cards and the turn passes.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Hand} The new state of the hand after the challenge is resolved.
+ * @throws {IllegalActionError} If there is no WILD DRAW to challenge.
  * @category Functions
  * @example
- * const canPlayAnyCard = canPlayAny(hand);
+ * const newHand = challenge(hand);
  */
-export function canPlayAny(hand: Hand): boolean {
-  if (hand.playerInTurn === undefined) return false;
+export function challenge(hand: Hand): Hand {
+  const wildDraw = hand.wildDrawChallenge;
+  if (hand.playerInTurn === undefined || wildDraw === undefined) {
+    throw new IllegalActionError("Nothing to challenge", "challenge", hand.playerInTurn);
+  }
 
-  const playerHand = hand.hands[hand.playerInTurn];
-  const topCard = topOfDiscard(hand);
+  const guilty = wildDraw.offenderHand.some((c) => c.color === wildDraw.previousColor);
+  if (!guilty) {
+    return drawPenalty({ ...hand, pendingDraw: hand.pendingDraw + 2 });
+  }
 
-  return playerHand.some((card) =>
-    canPlayCard(card, topCard, playerHand, hand.currentColor)
-  );
+  const penalized = penalize(hand, wildDraw.offender, wildDraw.penalty);
+
+  return afterAction(hand, {
+    ...penalized,
+    pendingDraw: hand.pendingDraw - wildDraw.penalty,
+    wildDrawChallenge: undefined
+  });
 }
 
 /**
- * Gets the top card of the discard pile.
+ * Accepts the penalty of a WILD DRAW instead of challenging it.
  * 
  * @param {Hand} hand - The current state of the hand.
- * @returns {Card} The top card of the discard pile.
+ * @returns {Hand} The new state of the hand after the penalty is drawn.
+ * @throws {IllegalActionError} If there is no WILD DRAW to accept.
  * @category Functions
  * @example
- * const topCard = topOfDiscard(hand);
+ * const newHand = acceptPenalty(hand);
  */
-export function topOfDiscard(hand: Hand): Card {
-  return hand.discardPile[hand.discardPile.length - 1];
+export function acceptPenalty(hand: Hand): Hand {
+  if (hand.playerInTurn === undefined || hand.wildDrawChallenge === undefined) {
+    throw new IllegalActionError("No penalty to accept", "acceptPenalty", hand.playerInTurn);
+  }
+
+  return drawPenalty(hand);
 }
 
 /**
- * Checks if a specific card can be played.
+ * Applies a move to a hand.
  * 
- * @function canPlayCard
- * @param {Card} card - The card to check.
- * @param {Card} topCard - The top card of the discard pile.
- * @param {Card[]} playerHand - The player's hand.
- * @param {Color} currentColor - The current color in play.
- * @returns {boolean} True if the card can be played, false otherwise.
+ * @param {Hand} hand - The current state of the hand.
+ * @param {Move} move - The move to apply.
+ * @returns {Hand} The new state of the hand after the move.
+ * @throws {UnoError} If the move is unknown, or the function it stands for throws.
  * @category Functions
  * @example
- * const canPlay = canPlayCard(card, topCard, playerHand, currentColor);
+ * const newHand = applyMove(hand, { type: 'play', cardIdx: 0, color: 'RED' });
  */
-function canPlayCard(
-  card: Card,
-  topCard: Card,
-  playerHand: Card[],
-  currentColor: Color
-): boolean {
-  if (card.type === "WILD") return true;
-
-  if (card.type === "WILD DRAW") {
-    return !playerHand.some((c) => c.color === currentColor);
-  }
-
-  if (["SKIP", "REVERSE", "DRAW"].includes(card.type)) {
-    return card.color === currentColor || card.type === topCard.type;
+export function applyMove(hand: Hand, move: Move): Hand {
+  switch (move.type) {
+    case "play":
+      return play(move.cardIdx, move.color, hand, move.target);
+    case "playMany":
+      return playMany(move.cardIdxs, move.color, hand, move.target);
+    case "draw":
+      return draw(hand);
+    case "pass":
+      return pass(hand);
+    case "jumpIn":
+      return jumpIn(move.player, move.cardIdx, hand, move.target);
+    case "chooseStartColor":
+      return chooseStartColor(move.color, hand);
+    case "challenge":
+      return challenge(hand);
+    case "acceptPenalty":
+      return acceptPenalty(hand);
+    case "sayUno":
+      return sayUno(move.player, hand);
+    case "catchUno":
+      return catchUnoFailure({ accuser: move.accuser, accused: move.accused }, hand);
+    case "accuseUno":
+      return accuseUno({ accuser: move.accuser, accused: move.accused }, hand).hand;
+    default:
+      // Moves may come from outside the type system, such as over the network
+      throw new IllegalActionError("Unknown move", String((move as { type: unknown }).type));
   }
+}
 
-  return (
-    card.color === currentColor ||
-    (card.type === "NUMBERED" && topCard.type === "NUMBERED" && card.number === topCard.number)
-  );
+/**
+ * Applies a move to a hand, returning a Result instead of throwing. Every action has a Move, so this is
+ * the exception-free variant of every action.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @param {Move} move - The move to apply.
+ * @returns {Result<Hand>} The new state of the hand, or the error that kept the move from being applied.
+ * @category Functions
+ * @example
+ * const result = tryApplyMove(hand, { type: 'play', cardIdx: 0 });
+ * const newHand = result.ok ? result.value : hand;
+ */
+export function tryApplyMove(hand: Hand, move: Move): Result<Hand> {
+  return attempt(() => applyMove(hand, move));
 }
 
 /**
- * Plays a card from the player's hand.
+ * Lists every legal move of the player in turn, see `legalMovesFor`.
  * 
- * @param {number} cardIdx - The index of the card in the player's hand.
- * @param {Color} [chosenColor] - The chosen color for wild cards.
  * @param {Hand} hand - The current state of the hand.
- * @returns {Hand} The new state of the hand after the card is played.
- * @throws {Error} If the card cannot be played.
+ * @returns {Move[]} The legal moves of the player in turn, or none if the hand is over.
  * @category Functions
  * @example
- * const newHand = play(0, 'RED', hand);
+ * const moves = legalMoves(hand);
+ * const newHand = applyMove(hand, moves[0]);
  */
-export function play(
-  cardIdx: number,
-  chosenColor: Color | undefined,
-  hand: Hand
-): Hand {
-  if (!canPlay(cardIdx, hand)) {
-    throw new Error("Illegal play");
-  }
+export function legalMoves(hand: Hand): Move[] {
+  if (hand.playerInTurn === undefined) return [];
 
-  const currentPlayer = hand.playerInTurn!;
-  const playerHand = hand.hands[currentPlayer];
-  const card = playerHand[cardIdx];
+  return legalMovesFor(hand.playerInTurn, hand);
+}
 
-  // Validate color choice
-  if ((card.type === "WILD" || card.type === "WILD DRAW") && !chosenColor) {
-    throw new Error("Must specify color for wild card");
-  }
-  if (card.color && chosenColor) {
-    throw new Error("Cannot specify color for colored card");
+/**
+ * Lists every legal move of a player.
+ * 
+ * The player in turn may play any playable card, draw, pass after drawing, and challenge or accept a WILD DRAW.
+ * Other players may jump in. Wild cards are listed once for every color, and targeted cards once for every opponent.
+ * Under the playMultiple rule, cards of the same kind are listed as playMany moves starting with a playable card.
+ * As only the number of cards of each color and the color of the last card make a difference, one move is listed
+ * for every such combination rather than for every order of the cards. Every player may also say "UNO" when holding
+ * two cards or less, and catch a player who has failed to.
+ * 
+ * @param {number} player - The index of the player.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Move[]} The legal moves of the player, or none if the hand is over.
+ * @throws {InvalidPlayerError} If the player index is invalid.
+ * @category Functions
+ * @example
+ * const catches = legalMovesFor(2, hand).filter((move) => move.type === 'catchUno');
+ */
+export function legalMovesFor(player: number, hand: Hand): Move[] {
+  if (player < 0 || player >= hand.playerCount) {
+    throw new InvalidPlayerError("Invalid player", player);
   }
+  if (hand.playerInTurn === undefined) return [];
 
-  // Remove played card
-  const newHands = hand.hands.map((h, idx) =>
-    idx === currentPlayer ? h.filter((_, i) => i !== cardIdx) : h
-  );
+  const moves = player === hand.playerInTurn ? turnMoves(hand) : jumpInMoves(player, hand);
 
-  // Handle draw pile exhaustion for DRAW effects
-  let newDrawPile = hand.drawPile;
-  let newDiscardPile = [...hand.discardPile, card];
-
-  if ((card.type === "DRAW" && newDrawPile.length < 2) ||
-    (card.type === "WILD DRAW" && newDrawPile.length < 4)) {
-    // Keep the new top card
-    const topCard = card;
-    // Shuffle all the old discard pile
-    const cardsToShuffle = hand.discardPile;
-    newDrawPile = [...newDrawPile, ...hand._shuffler(cardsToShuffle)];
-    newDiscardPile = [topCard];
+  if (hand.hands[player].length <= 2 && !hand.saidUno.has(player)) {
+    moves.push({ type: "sayUno", player });
   }
+  hand.hands.forEach((_, accused) => {
+    if (accused !== player && checkUnoFailure({ accuser: player, accused }, hand)) {
+      moves.push({ type: "catchUno", accuser: player, accused });
+    }
+  });
 
-  // Handle DRAW and WILD DRAW effects before game end
-  if ((card.type === "DRAW" || card.type === "WILD DRAW") && newHands[currentPlayer].length === 0) {
-    const targetPlayer = (currentPlayer + hand.direction + hand.playerCount) % hand.playerCount;
-    const cardCount = card.type === "DRAW" ? 2 : 4;
-    const drawnCards = newDrawPile.slice(0, cardCount);
-    newHands[targetPlayer] = [...newHands[targetPlayer], ...drawnCards];
-    newDrawPile = newDrawPile.slice(cardCount);
+  return moves;
+}
 
-    return {
-      ...hand,
-      hands: newHands,
-      drawPile: newDrawPile,
-      discardPile: newDiscardPile,
-      playerInTurn: undefined,
-      currentColor: chosenColor || card.color || hand.currentColor,
-      _shuffler: hand._shuffler
-    };
+/**
+ * Lists the legal moves of the player in turn, apart from saying and catching "UNO".
+ * 
+ * @function turnMoves
+ * @param {Hand} hand - The current state of the hand, which must not be over.
+ * @returns {Move[]} The legal moves.
+ * @category Functions
+ */
+function turnMoves(hand: Hand): Move[] {
+  if (hand.currentColor === undefined) {
+    return palette(hand).map((color): Move => ({ type: "chooseStartColor", color }));
   }
 
-  // Check if game is over
-  if (newHands[currentPlayer].length === 0) {
-    return {
-      ...hand,
-      hands: newHands,
-      drawPile: newDrawPile,
-      discardPile: newDiscardPile,
-      playerInTurn: undefined,
-      currentColor: chosenColor || card.color || hand.currentColor,
-      _shuffler: hand._shuffler
-    };
+  const playerHand = hand.hands[hand.playerInTurn!];
+  const moves: Move[] = [];
+  playerHand.forEach((card, cardIdx) => {
+    if (!canPlay(cardIdx, hand)) return;
+    playVariants(card, hand).forEach((variant) => moves.push({ type: "play", cardIdx, ...variant }));
+  });
+  if (hand.rules.playMultiple && hand.drawnCardIdx === undefined) {
+    moves.push(...playManyMoves(hand));
   }
 
-  // Handle special cards
-  let direction = hand.direction;
-  let nextPlayer = currentPlayer;
-
-  if (card.type === "REVERSE") {
-    direction = (direction * -1) as 1 | -1;
-    if (hand.playerCount === 2) {
-      nextPlayer = currentPlayer;
-    } else {
-      nextPlayer = (currentPlayer + direction + hand.playerCount) % hand.playerCount;
-    }
-  } else if (card.type === "SKIP") {
-    nextPlayer = (currentPlayer + 2 * direction + hand.playerCount) % hand.playerCount;
-  } else if (card.type === "DRAW") {
-    const targetPlayer = (currentPlayer + direction + hand.playerCount) % hand.playerCount;
-    const drawnCards = newDrawPile.slice(0, 2);
-    newHands[targetPlayer] = [...newHands[targetPlayer], ...drawnCards];
-    newDrawPile = newDrawPile.slice(2);
-    nextPlayer = (currentPlayer + 2 * direction + hand.playerCount) % hand.playerCount;
-  } else if (card.type === "WILD DRAW") {
-    const targetPlayer = (currentPlayer + direction + hand.playerCount) % hand.playerCount;
-    const drawnCards = newDrawPile.slice(0, 4);
-    newHands[targetPlayer] = [...newHands[targetPlayer], ...drawnCards];
-    newDrawPile = newDrawPile.slice(4);
-    nextPlayer = (currentPlayer + 2 * direction + hand.playerCount) % hand.playerCount;
+  if (hand.wildDrawChallenge !== undefined) {
+    moves.push({ type: "challenge" }, { type: "acceptPenalty" });
+  }
+  if (hand.pendingDraw > 0 || hand.drawnCardIdx === undefined) {
+    moves.push({ type: "draw" });
   } else {
-    nextPlayer = (currentPlayer + direction + hand.playerCount) % hand.playerCount;
+    moves.push({ type: "pass" });
   }
 
-  return {
-    ...hand,
-    hands: newHands,
-    drawPile: newDrawPile,
-    discardPile: newDiscardPile,
-    playerInTurn: nextPlayer,
-    direction,
-    currentColor: chosenColor || card.color || hand.currentColor,
-    _shuffler: hand._shuffler
-  };
+  return moves;
 }
 
 /**
- * Draws a card from the draw pile.
+ * Lists the distinct ways for the player in turn to play several cards of the same kind at once.
  * 
- * @param {Hand} hand - The current state of the hand.
- * @returns {Hand} The new state of the hand after drawing a card.
- * @throws {Error} If the game is over.
+ * Cards of the same kind and color are interchangeable, and only the last card sets the new color,
+ * so one move is listed for every number of cards taken of each color and every color of the last card.
+ * The first card is a playable one among the rest, and the cards in between are played in the order they are held.
+ * 
+ * @function playManyMoves
+ * @param {Hand} hand - The current state of the hand, with the player in turn allowed to play several cards.
+ * @returns {Move[]} The playMany moves.
  * @category Functions
- * @example
- * const newHand = draw(hand);
  */
-export function draw(hand: Hand): Hand {
-  if (hand.playerInTurn === undefined) {
-    throw new Error("Game is over");
-  }
-
-  const currentPlayer = hand.playerInTurn;
-  const drawnCard = hand.drawPile[0];
-
-  // Add drawn card to player's hand
-  const newHands = [...hand.hands];
-  newHands[currentPlayer] = [...newHands[currentPlayer], drawnCard];
-
-  // Check if this was the last card in draw pile
-  if (hand.drawPile.length === 1) {
-    // Keep top card of discard
-    const topCard = hand.discardPile[hand.discardPile.length - 1];
-
-    // Shuffle rest of discard pile to make new draw pile
-    const cardsToShuffle = hand.discardPile.slice(0, -1);
-    const newDrawPile = hand._shuffler(cardsToShuffle);
+function playManyMoves(hand: Hand): Move[] {
+  const playerHand = hand.hands[hand.playerInTurn!];
+  const kinds: number[][] = [];
+  playerHand.forEach((card, idx) => {
+    const kind = kinds.find((k) => sameKind(playerHand[k[0]], card));
+    if (kind) kind.push(idx);
+    else kinds.push([idx]);
+  });
+
+  return kinds.flatMap((kind) => {
+    const groups = [...new Set(kind.map((idx) => playerHand[idx].color))].map((color) =>
+      kind.filter((idx) => playerHand[idx].color === color)
+    );
+    // Every number of cards to take from each color group
+    const counts = groups.reduce<number[][]>(
+      (acc, group) => acc.flatMap((taken) => Array.from({ length: group.length + 1 }, (_, count) => [...taken, count])),
+      [[]]
+    );
 
-    // Check if drawn card can be played
-    const canPlayDrawn = canPlayCard(drawnCard, topOfDiscard(hand), newHands[currentPlayer], hand.currentColor);
-    const nextPlayer = canPlayDrawn
-      ? currentPlayer
-      : (currentPlayer + hand.direction + hand.playerCount) % hand.playerCount;
+    return counts.flatMap((taken) => {
+      const chosen = groups.map((group, g) => group.slice(0, taken[g]));
+      if (chosen.flat().length < 2) return [];
+
+      return chosen.flatMap((lastGroup): Move[] => {
+        if (lastGroup.length === 0) return [];
+        const last = lastGroup[lastGroup.length - 1];
+        const rest = chosen.flat().filter((idx) => idx !== last).sort((a, b) => a - b);
+        const first = rest.find((idx) => canPlay(idx, hand));
+        if (first === undefined) return [];
+        const cardIdxs = [first, ...rest.filter((idx) => idx !== first), last];
+        return playVariants(playerHand[first], hand).map((variant): Move => ({ type: "playMany", cardIdxs, ...variant }));
+      });
+    });
+  });
+}
 
-    return {
-      ...hand,
-      hands: newHands,
-      drawPile: newDrawPile,
-      discardPile: [topCard],
-      playerInTurn: nextPlayer,
-      _shuffler: hand._shuffler
-    };
-  }
+/**
+ * Lists the cards a player out of turn may jump in with.
+ * 
+ * @function jumpInMoves
+ * @param {number} player - The index of the player.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Move[]} The legal jump-in moves.
+ * @category Functions
+ */
+function jumpInMoves(player: number, hand: Hand): Move[] {
+  const jumping: Hand = { ...hand, playerInTurn: player };
+  return hand.hands[player].flatMap((card, cardIdx) =>
+    canJumpIn(player, cardIdx, hand)
+      ? playVariants(card, jumping).map((variant): Move => ({ type: "jumpIn", player, cardIdx, ...variant }))
+      : []
+  );
+}
 
-  // Normal case - still cards in draw pile
-  const canPlayDrawn = canPlayCard(drawnCard, topOfDiscard(hand), newHands[currentPlayer], hand.currentColor);
-  const nextPlayer = canPlayDrawn
-    ? currentPlayer
-    : (currentPlayer + hand.direction + hand.playerCount) % hand.playerCount;
+/**
+ * Gives the choices to make when playing a card: the color of a wild card and the target of a targeted card.
+ * 
+ * @function playVariants
+ * @param {Card} card - The card to play.
+ * @param {Hand} hand - The current state of the hand, with the player playing the card in turn.
+ * @returns {{ color?: Color; target?: number }[]} Every combination of choices.
+ * @category Functions
+ */
+function playVariants(card: Card, hand: Hand): { color?: Color; target?: number }[] {
+  const player = hand.playerInTurn!;
+  const type = cardType(card.type);
+  const choices: (Color | undefined)[] = type.wild ? palette(hand) : [undefined];
+
+  // A targeted card needs no target when it is the player's last card
+  const targets: (number | undefined)[] =
+    type.targeted?.(card, hand) && hand.hands[player].length > 1
+      ? hand.hands.map((_, idx) => idx).filter((idx) => idx !== player)
+      : [undefined];
+
+  return choices.flatMap((color) =>
+    targets.map((target) => ({
+      ...(color !== undefined ? { color } : {}),
+      ...(target !== undefined ? { target } : {})
+    }))
+  );
+}
 
-  return {
-    ...hand,
-    hands: newHands,
-    drawPile: hand.drawPile.slice(1),
-    playerInTurn: nextPlayer,
-    _shuffler: hand._shuffler
-  };
+/**
+ * Gives the colors that can be chosen on the side of the cards in play.
+ * 
+ * @function palette
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {Color[]} The colors of the side in play.
+ * @category Functions
+ */
+function palette(hand: Hand): Color[] {
+  return hand.side === "dark" ? darkColors : colors;
 }
 
 /**
@@ -468,43 +1451,130 @@ export function winner(hand: Hand): number | undefined {
   return winningIdx === -1 ? undefined : winningIdx;
 }
 
+/**
+ * Gives the standard point value of a card, as defined by its card type: 50 for wild cards, 20 for action cards and face value for numbered cards.
+ * 
+ * @param {Card} card - The card to value.
+ * @returns {number} The point value of the card.
+ * @category Functions
+ * @example
+ * const points = standardCardValue({ type: 'SKIP', color: 'RED' });
+ */
+export function standardCardValue(card: Card): number {
+  return cardType(card.type).points(card);
+}
+
+/**
+ * The standard scoring rules, without a bonus for going out.
+ * 
+ * @category Constants
+ */
+export const standardScoring: ScoringRules = {
+  cardValue: standardCardValue,
+  goingOutBonus: () => 0
+};
+
+/**
+ * Creates a card value function from a table of points per card type.
+ * Card types missing from the table keep their standard value.
+ * 
+ * @param {Partial<Record<Type, number>>} points - The point value of each card type.
+ * @returns {CardValue} The card value function.
+ * @category Functions
+ * @example
+ * const cardValue = pointTable({ WILD: 40, 'WILD DRAW': 40 });
+ */
+export function pointTable(points: Partial<Record<Type, number>>): CardValue {
+  return (card) => points[card.type] ?? standardCardValue(card);
+}
+
+/**
+ * The scoring rules of UNO Flip, which values a plain WILD at 40 instead of 50.
+ * The other Flip cards keep the value of their card type.
+ * 
+ * @category Constants
+ * @example
+ * const game = createGame({ rules: flipRules, scoring: flipScoring });
+ */
+export const flipScoring: ScoringRules = {
+  ...standardScoring,
+  cardValue: pointTable({ WILD: 40 })
+};
+
 /**
  * Calculates the score for the current hand.
  * 
  * @param {Hand} hand - The current state of the hand.
+ * @param {Partial<ScoringRules>} [scoring={}] - The scoring rules that differ from the standard scoring.
  * @returns {number | undefined} The score for the current hand, or undefined if the game has not ended.
  * @category Functions
  * @example
  * const handScore = score(hand);
  */
-export function score(hand: Hand): number | undefined {
+export function score(hand: Hand, scoring: Partial<ScoringRules> = {}): number | undefined {
+  return scoreBreakdown(hand, scoring)?.total;
+}
+
+/**
+ * Calculates the score for the current hand, broken down by opponent.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @param {Partial<ScoringRules>} [scoring={}] - The scoring rules that differ from the standard scoring.
+ * @returns {ScoreBreakdown | undefined} The score breakdown for the current hand, or undefined if the game has not ended.
+ * @category Functions
+ * @example
+ * const breakdown = scoreBreakdown(hand, { cardValue: pointTable({ WILD: 40 }) });
+ */
+export function scoreBreakdown(hand: Hand, scoring: Partial<ScoringRules> = {}): ScoreBreakdown | undefined {
   if (!hasEnded(hand)) return undefined;
 
   const winningPlayer = winner(hand);
   if (winningPlayer === undefined) return undefined;
 
-  // Sum all opponent cards
-  return hand.hands.reduce((total, playerHand, idx) => {
-    // Skip winner's hand
-    if (idx === winningPlayer) return total;
-
-    // Add up cards in this opponent's hand
-    return total + playerHand.reduce((sum, card) => {
-      switch (card.type) {
-        case "WILD":
-        case "WILD DRAW":
-          return sum + 50;
-        case "SKIP":
-        case "REVERSE":
-        case "DRAW":
-          return sum + 20;
-        case "NUMBERED":
-          return sum + card.number!;
-        default:
-          return sum;
-      }
-    }, 0);
-  }, 0);
+  const { cardValue, goingOutBonus, teams } = { ...standardScoring, ...scoring };
+  const winningTeam = teams?.find((team) => team.includes(winningPlayer)) ?? [winningPlayer];
+
+  // Add up the cards of every opponent, skipping the hands of the winner and their partners
+  const opponents = hand.hands
+    .map((playerHand, player) => ({ player, points: cardPoints(playerHand, cardValue) }))
+    .filter(({ player }) => !winningTeam.includes(player));
+  const bonus = goingOutBonus(topOfDiscard(hand));
+
+  return {
+    winner: winningPlayer,
+    opponents,
+    bonus,
+    total: opponents.reduce((total, { points }) => total + points, bonus)
+  };
+}
+
+/**
+ * Calculates the points each player is charged for the cards left in their own hand.
+ * 
+ * @param {Hand} hand - The current state of the hand.
+ * @param {CardValue} [cardValue=standardCardValue] - The point value of each card.
+ * @returns {number[] | undefined} The points of each player's cards, or undefined if the game has not ended.
+ * @category Functions
+ * @example
+ * const charged = penalties(hand);
+ */
+export function penalties(hand: Hand, cardValue: CardValue = standardCardValue): number[] | undefined {
+  if (!hasEnded(hand) || winner(hand) === undefined) return undefined;
+
+  return hand.hands.map((playerHand) => cardPoints(playerHand, cardValue));
+}
+
+/**
+ * Adds up the point values of cards.
+ * 
+ * @function cardPoints
+ * @param {Card[]} cards - The cards to count.
+ * @param {CardValue} cardValue - The point value of each card.
+ * @returns {number} The total point value of the cards.
+ * @category Functions
+ */
+function cardPoints(cards: Card[], cardValue: CardValue): number {
+  return cards.reduce((sum, card) => sum + cardValue(card), 0);
 }
 
 /**
@@ -538,11 +1608,12 @@ function dealHands(
 
 /**
  * Checks if a player can be caught for failing to say "UNO".
+ * A player can only be caught after the play that took them to one card, until the next action.
  * 
  * @param {UnoAction} action - The action containing the accuser and accused player indices.
  * @param {Hand} hand - The current state of the hand.
  * @returns {boolean} True if the player can be caught for failing to say "UNO", false otherwise.
- * @throws {Error} If the accused player index is invalid.
+ * @throws {InvalidPlayerError} If the accused or accuser player index is invalid, or a player accuses themselves.
  * @category Functions
  * @example
  * const canCatch = checkUnoFailure({ accuser: 1, accused: 0 }, hand);
@@ -550,32 +1621,20 @@ function dealHands(
 export function checkUnoFailure(action: UnoAction, hand: Hand): boolean {
   // Validate indices
   if (action.accused < 0 || action.accused >= hand.playerCount) {
-    throw new Error("Invalid accused player");
+    throw new InvalidPlayerError("Invalid accused player", action.accused);
   }
-
-  const accusedHand = hand.hands[action.accused];
-  
-  // Must have exactly one card
-  if (accusedHand.length !== 1) {
-    return false;
+  if (action.accuser < 0 || action.accuser >= hand.playerCount) {
+    throw new InvalidPlayerError("Invalid accuser", action.accuser);
   }
-
-  // Must be the last player to have played
-  const expectedCurrentPlayer = (action.accused + hand.direction + hand.playerCount) % hand.playerCount;
-  if (hand.playerInTurn !== expectedCurrentPlayer) {
-    return false;
+  if (action.accuser === action.accused) {
+    throw new InvalidPlayerError("Players cannot accuse themselves", action.accuser);
   }
 
-  // UNO declaration is valid if:
-  // 1. They said UNO (in saidUno set)
-  // 2. They have one card
-  // 3. They were the last to play
-  // This captures declarations made just before or after playing
-  // while invalid declarations during other turns get cleared
-  const validUnoDeclaration = hand.saidUno.has(action.accused);
-
-  // Return true if they can be caught (no valid UNO declaration)
-  return !validUnoDeclaration;
+  // The accused must just have played down to one card without saying "UNO",
+  // and no one may have acted since
+  return hand.unoCatchable === action.accused
+    && hand.hands[action.accused].length === 1
+    && !hand.saidUno.has(action.accused);
 }
 
 /**
@@ -584,14 +1643,14 @@ export function checkUnoFailure(action: UnoAction, hand: Hand): boolean {
  * @param {UnoAction} action - The action containing the accuser and accused player indices.
  * @param {Hand} hand - The current state of the hand.
  * @returns {Hand} The new state of the hand after catching the player.
- * @throws {Error} If the UNO catch is invalid.
+ * @throws {InvalidPlayerError | IllegalActionError} If the UNO catch is invalid.
  * @category Functions
  * @example
  * const newHand = catchUnoFailure({ accuser: 1, accused: 0 }, hand);
  */
 export function catchUnoFailure(action: UnoAction, hand: Hand): Hand {
   if (!checkUnoFailure(action, hand)) {
-    throw new Error("Invalid UNO catch");
+    throw new IllegalActionError("Invalid UNO catch", "catchUno", action.accuser);
   }
 
   // Add 4 cards to accused player's hand
@@ -616,11 +1675,51 @@ export function catchUnoFailure(action: UnoAction, hand: Hand): Hand {
   newHands[action.accused] = [...newHands[action.accused], ...drawnCards];
   newDrawPile = newDrawPile.slice(4);
 
+  return afterAction(hand, emit(
+    {
+      ...hand,
+      hands: newHands,
+      drawPile: newDrawPile,
+      discardPile: newDiscardPile,
+    },
+    { type: "UnoCaught", accuser: action.accuser, accused: action.accused },
+    ...reshuffleEvents(hand.discardPile, newDiscardPile),
+    { type: "PenaltyDrawn", player: action.accused, cards: drawnCards }
+  ));
+}
+
+/**
+ * Accuses a player of failing to say "UNO". Unlike catchUnoFailure, a false accusation is not an error:
+ * the accuser draws the number of cards set by the falseAccusationPenalty rule instead.
+ * A false accusation leaves the window for catching the player who really forgot to say "UNO" open.
+ * 
+ * @param {UnoAction} action - The action containing the accuser and accused player indices.
+ * @param {Hand} hand - The current state of the hand.
+ * @returns {AccusationResult} The new state of the hand and the outcome of the accusation.
+ * @throws {GameOverError | InvalidPlayerError} If the game is over, a player index is invalid or a player accuses themselves.
+ * @category Functions
+ * @example
+ * const { hand: newHand, outcome } = accuseUno({ accuser: 1, accused: 0 }, hand);
+ */
+export function accuseUno(action: UnoAction, hand: Hand): AccusationResult {
+  if (hand.playerInTurn === undefined) {
+    throw new GameOverError();
+  }
+
+  if (checkUnoFailure(action, hand)) {
+    const caught = catchUnoFailure(action, hand);
+    return { hand: caught, outcome: "caught", drawn: caught.hands[action.accused].length - 1 };
+  }
+
+  const penalty = hand.rules.falseAccusationPenalty;
+  if (penalty === 0) {
+    return { hand, outcome: "falseAccusation", drawn: 0 };
+  }
+  const penalized = penalize(hand, action.accuser, penalty);
   return {
-    ...hand,
-    hands: newHands,
-    drawPile: newDrawPile,
-    discardPile: newDiscardPile,
+    hand: { ...penalized, saidUno: new Set([...hand.saidUno].filter((p) => p !== action.accuser)) },
+    outcome: "falseAccusation",
+    drawn: penalized.hands[action.accuser].length - hand.hands[action.accuser].length
   };
 }
 
@@ -630,23 +1729,26 @@ export function catchUnoFailure(action: UnoAction, hand: Hand): Hand {
  * @param {number} player - The index of the player declaring "UNO".
  * @param {Hand} hand - The current state of the hand.
  * @returns {Hand} The new state of the hand after declaring "UNO".
- * @throws {Error} If the player index is invalid or the game is over.
+ * @throws {GameOverError | InvalidPlayerError} If the player index is invalid or the game is over.
  * @category Functions
  * @example
  * const newHand = sayUno(0, hand);
  */
 export function sayUno(player: number, hand: Hand): Hand {
   if (player < 0 || player >= hand.playerCount) {
-    throw new Error("Invalid player");
+    throw new InvalidPlayerError("Invalid player", player);
   }
 
   // Player can't say uno if the game is over
   if (hand.playerInTurn === undefined) {
-    throw new Error("Game is over");
+    throw new GameOverError();
   }
 
-  return {
-    ...hand,
-    saidUno: new Set([...hand.saidUno, player]),
-  };
+  return emit(
+    {
+      ...hand,
+      saidUno: new Set([...hand.saidUno, player]),
+    },
+    { type: "UnoDeclared", player }
+  );
 }
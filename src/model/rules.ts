@@ -0,0 +1,162 @@
+import { DeckSpec, flipDarkDeckSpec, flipLightDeckSpec, standardDeckSpec } from "./deck";
+
+/**
+ * Describes which rules are in effect for a game.
+ *
+ * @interface RuleSet
+ * @property {boolean} stacking - Whether a DRAW or WILD DRAW played at a player may be answered with another draw card, passing the accumulated penalty on.
+ * @property {boolean} sevenO - Whether playing a 7 swaps hands with a chosen opponent and playing a 0 rotates all hands in the direction of play.
+ * @property {boolean} jumpIn - Whether a player holding an exact duplicate of the top of the discard pile may play it out of turn.
+ * @property {boolean} playMultiple - Whether a player may play several cards of the same number or type in one turn.
+ * @property {boolean} challengeWildDraw - Whether a WILD DRAW may always be played and then challenged by the player it is played at.
+ * @property {boolean} reverseSkipsWithTwoPlayers - Whether a REVERSE acts as a SKIP when only two players are left.
+ * @property {number} drawCount - The number of cards a DRAW makes the next player draw.
+ * @property {number} wildDrawCount - The number of cards a WILD DRAW makes the next player draw.
+ * @property {"redeal" | "replace" | "official"} startingWild - What to do when the first card of the discard pile is wild: reshuffle and redeal, put it under the draw pile and turn the next card, or follow the official rules, where a wild draw card is shuffled back into the draw pile and the first player chooses the color of any other wild card.
+ * @property {boolean} playDrawnCard - Whether a player who draws a playable card keeps the turn to play it.
+ * @property {"single" | "untilPlayable" | "launcher"} drawMode - Whether drawing takes a single card, keeps taking cards until a playable one turns up, or fires an UNO Attack launcher ejecting a random number of cards.
+ * @property {number} launcherMax - The most cards the launcher can eject at once.
+ * @property {boolean} explicitPass - Whether a player who has drawn keeps the turn until they play the drawn card or pass. Only applies if playDrawnCard is set.
+ * @property {number} falseAccusationPenalty - The number of cards a player must draw for accusing someone of not saying "UNO" when they can't be caught. With 0, false accusations go unpunished.
+ * @property {number | "auto"} deckCount - The number of decks to play with. With "auto", the default, one deck is added for every 10 players.
+ * @property {DeckSpec} deck - The cards each deck is made of.
+ * @property {DeckSpec} [darkDeck] - The dark side of the cards, for playing with two-sided cards as in UNO Flip.
+ * @category Types
+ */
+export interface RuleSet {
+  stacking: boolean;
+  sevenO: boolean;
+  jumpIn: boolean;
+  playMultiple: boolean;
+  challengeWildDraw: boolean;
+  reverseSkipsWithTwoPlayers: boolean;
+  drawCount: number;
+  wildDrawCount: number;
+  startingWild: "redeal" | "replace" | "official";
+  playDrawnCard: boolean;
+  drawMode: "single" | "untilPlayable" | "launcher";
+  launcherMax: number;
+  explicitPass: boolean;
+  falseAccusationPenalty: number;
+  deckCount: number | "auto";
+  deck: DeckSpec;
+  darkDeck?: DeckSpec;
+}
+
+/**
+ * The rules the engine plays by unless told otherwise.
+ *
+ * @category Constants
+ */
+export const standardRules: RuleSet = {
+  stacking: false,
+  sevenO: false,
+  jumpIn: false,
+  playMultiple: false,
+  challengeWildDraw: false,
+  reverseSkipsWithTwoPlayers: true,
+  drawCount: 2,
+  wildDrawCount: 4,
+  startingWild: "redeal",
+  playDrawnCard: true,
+  drawMode: "single",
+  launcherMax: 6,
+  explicitPass: false,
+  falseAccusationPenalty: 0,
+  deckCount: "auto",
+  deck: standardDeckSpec
+};
+
+/**
+ * The rules as printed in the box: a WILD DRAW may be played as a bluff and challenged,
+ * and a wild first card is never redealt.
+ *
+ * @category Constants
+ */
+export const officialRules: RuleSet = {
+  ...standardRules,
+  challengeWildDraw: true,
+  startingWild: "official"
+};
+
+/**
+ * Standard rules with draw cards stacking.
+ *
+ * @category Constants
+ */
+export const stackingRules: RuleSet = {
+  ...standardRules,
+  stacking: true
+};
+
+/**
+ * Standard rules with the Seven-O variant.
+ *
+ * @category Constants
+ */
+export const sevenORules: RuleSet = {
+  ...standardRules,
+  sevenO: true
+};
+
+/**
+ * Stacking, Seven-O and jumping in at once, for lively tables.
+ * The other optional rules, such as playMultiple, challengeWildDraw and explicitPass, are left as in the standard rules.
+ *
+ * @category Constants
+ */
+export const partyRules: RuleSet = {
+  ...standardRules,
+  stacking: true,
+  sevenO: true,
+  jumpIn: true
+};
+
+/**
+ * Standard rules with the random launcher of UNO Attack instead of a plain draw pile.
+ *
+ * @category Constants
+ */
+export const attackRules: RuleSet = {
+  ...standardRules,
+  drawMode: "launcher"
+};
+
+/**
+ * Standard rules played with the two-sided UNO Flip deck.
+ * The WILD card is shared with the standard deck and worth 50 by default; score with `flipScoring` to value it at 40 as UNO Flip does.
+ *
+ * @category Constants
+ */
+export const flipRules: RuleSet = {
+  ...standardRules,
+  deck: flipLightDeckSpec,
+  darkDeck: flipDarkDeckSpec
+};
+
+/**
+ * Gives the number of decks to play with.
+ *
+ * @param {RuleSet} rules - The rules in effect.
+ * @param {number} playerCount - The number of players.
+ * @returns {number} The number of decks.
+ * @category Functions
+ * @example
+ * const decks = deckCount(createRules({ deckCount: "auto" }), 14); // 2
+ */
+export function deckCount(rules: RuleSet, playerCount: number): number {
+  return rules.deckCount === "auto" ? Math.max(1, Math.ceil(playerCount / 10)) : rules.deckCount;
+}
+
+/**
+ * Creates a rule set from the standard rules and the given overrides.
+ *
+ * @param {Partial<RuleSet>} [overrides={}] - The rules that differ from the standard rules.
+ * @returns {RuleSet} The complete rule set.
+ * @category Functions
+ * @example
+ * const rules = createRules({ stacking: true, drawCount: 3 });
+ */
+export function createRules(overrides: Partial<RuleSet> = {}): RuleSet {
+  return { ...standardRules, ...overrides };
+}
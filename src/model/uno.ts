@@ -1,8 +1,56 @@
 import type { Card, Color } from "./deck";
-import type { Hand } from "./hand";
-import { createHand, score as handScore } from "./hand";
+import { createInitialDeck } from "./deck";
+import type { Hand, Move, ScoreBreakdown, ScoringRules } from "./hand";
+import { applyMove, createHand, penalties, scoreBreakdown, standardScoring } from "./hand";
 import type { Randomizer, Shuffler } from "../utils/random_utils";
 import { standardRandomizer, standardShuffler } from "../utils/random_utils";
+import type { RuleSet } from "./rules";
+import { createRules } from "./rules";
+import type { Result } from "./errors";
+import { GameOverError, InvalidSetupError, attempt } from "./errors";
+
+/**
+ * How hand results are turned into game scores.
+ * 
+ * With "standard" scoring the winner of a hand scores the points left in the opponents' hands, and the
+ * first player to reach the target score wins. With "penalty" scoring every player is charged the points
+ * left in their own hand, the game ends when someone reaches the target score, and the lowest total wins.
+ * 
+ * @typedef {("standard" | "penalty")} ScoringStrategy
+ * @category Types
+ */
+export type ScoringStrategy = "standard" | "penalty";
+
+/**
+ * How the first dealer is picked: at random, or by the official ritual where every player draws a card,
+ * the highest number deals and tied players draw again.
+ * 
+ * @typedef {("random" | "highCard")} DealerSelection
+ * @category Types
+ */
+export type DealerSelection = "random" | "highCard";
+
+/**
+ * Who deals the next hand: the player to the left of the dealer, or the next player in the direction
+ * of play at the end of the hand.
+ * 
+ * @typedef {("clockwise" | "playDirection")} DealerRotation
+ * @category Types
+ */
+export type DealerRotation = "clockwise" | "playDirection";
+
+/**
+ * Represents a card drawn to select the dealer.
+ * 
+ * @interface DealerDraw
+ * @property {number} player - The index of the player who drew the card.
+ * @property {Card} card - The card drawn.
+ * @category Types
+ */
+export interface DealerDraw {
+  player: number;
+  card: Card;
+}
 
 /**
  * Properties for creating a new game.
@@ -10,9 +58,16 @@ import { standardRandomizer, standardShuffler } from "../utils/random_utils";
  * @interface Props
  * @property {string[]} [players] - The names of the players.
  * @property {number} [targetScore] - The target score to win the game.
- * @property {Randomizer} [randomizer] - The randomizer function to select the dealer.
+ * @property {Randomizer} [randomizer] - The randomizer function to select the dealer and fire the launcher.
  * @property {Shuffler<Card>} [shuffler] - The shuffler function to shuffle the cards.
  * @property {number} [cardsPerPlayer] - The number of cards dealt to each player.
+ * @property {Partial<RuleSet>} [rules] - The rules that differ from the standard rules.
+ * @property {ScoringStrategy} [scoringStrategy] - How hand results are turned into game scores.
+ * @property {Partial<ScoringRules>} [scoring] - The card values and going-out bonus that differ from the standard scoring.
+ * @property {number[][]} [teams] - The players of each team, to play in partnerships. See {@link oppositeTeams}. With random seating, the indices refer to seats.
+ * @property {DealerSelection} [dealerSelection] - How the first dealer is picked.
+ * @property {boolean} [randomSeating] - Whether the players are seated in random order.
+ * @property {DealerRotation} [dealerRotation] - Who deals the next hand.
  * @category Types
  */
 export interface Props {
@@ -21,6 +76,13 @@ export interface Props {
   randomizer?: Randomizer;
   shuffler?: Shuffler<Card>;
   cardsPerPlayer?: number;
+  rules?: Partial<RuleSet>;
+  scoringStrategy?: ScoringStrategy;
+  scoring?: Partial<ScoringRules>;
+  teams?: number[][];
+  dealerSelection?: DealerSelection;
+  randomSeating?: boolean;
+  dealerRotation?: DealerRotation;
 }
 
 /**
@@ -28,11 +90,18 @@ export interface Props {
  * 
  * @interface Game
  * @property {number} playerCount - The number of players in the game.
- * @property {string[]} players - The names of the players.
- * @property {number[]} scores - The scores of the players.
- * @property {number} targetScore - The target score to win the game.
+ * @property {string[]} players - The names of the players, in seating order.
+ * @property {number[]} scores - The scores of the players, or of the teams when playing in teams.
+ * @property {number} targetScore - The target score to win the game, or the limit that ends the game with penalty scoring.
+ * @property {ScoringStrategy} scoringStrategy - How hand results are turned into game scores.
+ * @property {ScoringRules} scoring - The card values and going-out bonus used for scoring. The bonus only applies to standard scoring.
+ * @property {RuleSet} rules - The rules every hand of the game is played by.
+ * @property {number[][]} [teams] - The players of each team, when playing in teams.
+ * @property {DealerRotation} dealerRotation - Who deals the next hand.
+ * @property {DealerDraw[][]} [dealerDraws] - The cards drawn to select the first dealer, round by round, when drawing for the deal.
  * @property {Hand} [currentHand] - The current hand being played.
- * @property {number} [winner] - The index of the winning player, if any.
+ * @property {ScoreBreakdown} [lastScore] - Where the points of the last finished hand came from.
+ * @property {number} [winner] - The index of the winning player, or of the winning team when playing in teams, if any.
  * @category Types
  */
 export interface Game {
@@ -40,7 +109,14 @@ export interface Game {
   players: string[];
   scores: number[];
   targetScore: number;
+  scoringStrategy: ScoringStrategy;
+  scoring: ScoringRules;
+  rules: RuleSet;
+  teams?: number[][];
+  dealerRotation: DealerRotation;
+  dealerDraws?: DealerDraw[][];
   currentHand?: Hand;
+  lastScore?: ScoreBreakdown;
   winner?: number;
 }
 
@@ -49,7 +125,8 @@ export interface Game {
  * 
  * @param {Props} [props={}] - The properties for creating the game.
  * @returns {Game} The initial state of the game.
- * @throws {Error} If the number of players is less than 2 or the target score is not positive.
+ * @throws {InvalidSetupError} If the number of players is less than 2, the target score is not positive, the teams don't divide the players
+ * or the deck cannot be drawn from for the deal.
  * @category Functions
  * @example
  * const game = createGame({ players: ['Alice', 'Bob'], targetScore: 200 });
@@ -59,44 +136,118 @@ export function createGame({
   targetScore = 500,
   randomizer = standardRandomizer,
   shuffler = standardShuffler,
-  cardsPerPlayer = 7
+  cardsPerPlayer = 7,
+  rules = {},
+  scoringStrategy = "standard",
+  scoring = {},
+  teams,
+  dealerSelection = "random",
+  randomSeating = false,
+  dealerRotation = "clockwise"
 }: Props = {}): Game {
   if (players.length < 2) {
-    throw new Error("At least 2 players required");
+    throw new InvalidSetupError("At least 2 players required");
   }
   if (targetScore <= 0) {
-    throw new Error("Target score must be positive");
+    throw new InvalidSetupError("Target score must be positive");
+  }
+  if (teams !== undefined) {
+    const seated = teams.flat().sort((a, b) => a - b);
+    if (teams.length < 2 || seated.length !== players.length || seated.some((player, idx) => player !== idx)) {
+      throw new InvalidSetupError("Every player must be on exactly one team");
+    }
   }
 
-  const dealer = randomizer(players.length);
-  
+  const ruleSet = createRules(rules);
+  const seated = randomSeating ? seat(players, randomizer) : players;
+  const [dealer, dealerDraws] =
+    dealerSelection === "highCard"
+      ? drawForDealer(players.length, () => shuffler(createInitialDeck(ruleSet.deck)))
+      : [randomizer(players.length), undefined];
+
   return {
     playerCount: players.length,
-    players,
-    scores: new Array(players.length).fill(0),
+    players: seated,
+    scores: new Array(teams?.length ?? players.length).fill(0),
     targetScore,
-    currentHand: createHand(players, dealer, shuffler, cardsPerPlayer)
+    scoringStrategy,
+    scoring: { ...standardScoring, ...scoring },
+    rules: ruleSet,
+    teams,
+    dealerRotation,
+    dealerDraws,
+    currentHand: createHand(seated, dealer, shuffler, cardsPerPlayer, ruleSet, randomizer)
   };
 }
 
+/**
+ * Seats the players in random order.
+ * 
+ * @function seat
+ * @param {string[]} players - The names of the players.
+ * @param {Randomizer} randomizer - The randomizer function used to pick the seats.
+ * @returns {string[]} The names of the players in seating order.
+ * @category Functions
+ */
+function seat(players: string[], randomizer: Randomizer): string[] {
+  const seated = [...players];
+  for (let i = seated.length - 1; i > 0; i--) {
+    const j = randomizer(i + 1);
+    [seated[i], seated[j]] = [seated[j], seated[i]];
+  }
+  return seated;
+}
+
+/**
+ * Selects the dealer by letting every player draw a card. The highest number deals, counting other cards as 0.
+ * Players tied for the highest number draw again until one is left.
+ * 
+ * @function drawForDealer
+ * @param {number} playerCount - The number of players.
+ * @param {() => Card[]} newDeck - Gives a freshly shuffled deck to draw from.
+ * @returns {[number, DealerDraw[][]]} A tuple containing the dealer and the cards drawn in each round.
+ * @throws {InvalidSetupError} If the deck holds fewer cards than players or every card counts the same.
+ * @category Functions
+ */
+function drawForDealer(playerCount: number, newDeck: () => Card[]): [number, DealerDraw[][]] {
+  const rounds: DealerDraw[][] = [];
+  let contenders = Array.from({ length: playerCount }, (_, player) => player);
+  let deck = newDeck();
+  // If every card counts the same, every round would be a tie
+  if (deck.length < playerCount || new Set(deck.map((card) => card.number ?? 0)).size < 2) {
+    throw new InvalidSetupError("Cannot draw for the deal with cards that all count the same");
+  }
+
+  for (;;) {
+    if (deck.length < contenders.length) deck = newDeck();
+    const round = contenders.map((player, i) => ({ player, card: deck[i] }));
+    deck = deck.slice(contenders.length);
+    rounds.push(round);
+
+    const highest = Math.max(...round.map(({ card }) => card.number ?? 0));
+    contenders = round.filter(({ card }) => (card.number ?? 0) === highest).map(({ player }) => player);
+    if (contenders.length === 1) return [contenders[0], rounds];
+  }
+}
+
 /**
  * Plays an action in the game.
  * 
  * @param {(h: Hand) => Hand} action - The action to perform on the current hand.
  * @param {Game} game - The current state of the game.
  * @returns {Game} The new state of the game after the action is performed.
- * @throws {Error} If the game is over.
+ * @throws {GameOverError} If the game is over.
  * @category Functions
  * @example
  * const newGame = play(hand => draw(hand), game);
  */
 export function play(action: (h: Hand) => Hand, game: Game): Game {
   if (!game.currentHand) {
-    throw new Error("Game is over");
+    throw new GameOverError();
   }
 
   const hand = action(game.currentHand);
-  const score = handScore(hand);
+  const score = scoreBreakdown(hand, { ...game.scoring, teams: game.teams });
 
   if (score === undefined) {
     return {
@@ -105,19 +256,79 @@ export function play(action: (h: Hand) => Hand, game: Game): Game {
     };
   }
 
+  // Scores are kept per team when playing in teams
+  const scoreIdx = (player: number) => game.teams?.findIndex((team) => team.includes(player)) ?? player;
   const newScores = [...game.scores];
-  const winner = hand.hands.findIndex((h: Card[]) => h.length === 0);
-  if (winner !== -1) {
-    newScores[winner] += score;
+  let gameWinner: number;
+  if (game.scoringStrategy === "penalty") {
+    penalties(hand, game.scoring.cardValue)!.forEach((points, idx) => newScores[scoreIdx(idx)] += points);
+    const lowestScore = Math.min(...newScores);
+    gameWinner = newScores.some(s => s >= game.targetScore) ? newScores.indexOf(lowestScore) : -1;
+  } else {
+    newScores[scoreIdx(score.winner)] += score.total;
+    gameWinner = newScores.findIndex(s => s >= game.targetScore);
   }
 
-  const gameWinner = newScores.findIndex(s => s >= game.targetScore);
-  const nextDealer = (hand.dealer + 1) % game.playerCount;
+  const nextDealer = game.dealerRotation === "playDirection"
+    ? (hand.dealer + hand.direction + game.playerCount) % game.playerCount
+    : (hand.dealer + 1) % game.playerCount;
 
   return {
     ...game,
     scores: newScores,
-    currentHand: gameWinner === -1 ? createHand(game.players, nextDealer) : undefined,
+    lastScore: score,
+    currentHand: gameWinner === -1 ? createHand(game.players, nextDealer, undefined, undefined, game.rules, hand._randomizer) : undefined,
     winner: gameWinner === -1 ? undefined : gameWinner
   };
-}
\ No newline at end of file
+}
+/**
+ * Applies a move to the current hand of the game.
+ * 
+ * @param {Game} game - The current state of the game.
+ * @param {Move} move - The move to apply.
+ * @returns {Game} The new state of the game after the move.
+ * @throws {UnoError} If the game is over or the move cannot be applied to the hand.
+ * @category Functions
+ * @example
+ * const newGame = applyGameMove(game, { type: 'draw' });
+ */
+export function applyGameMove(game: Game, move: Move): Game {
+  return play((hand) => applyMove(hand, move), game);
+}
+
+/**
+ * Applies a move to the current hand of the game, returning a Result instead of throwing.
+ * 
+ * @param {Game} game - The current state of the game.
+ * @param {Move} move - The move to apply.
+ * @returns {Result<Game>} The new state of the game, or the error that kept the move from being applied.
+ * @category Functions
+ * @example
+ * const result = tryApplyGameMove(game, { type: 'pass' });
+ * if (!result.ok) console.log(result.error.message);
+ */
+export function tryApplyGameMove(game: Game, move: Move): Result<Game> {
+  return attempt(() => applyGameMove(game, move));
+}
+
+/**
+ * Divides the players into teams whose partners sit opposite each other.
+ * 
+ * @param {number} playerCount - The number of players.
+ * @param {number} [teamSize=2] - The number of players on each team.
+ * @returns {number[][]} The players of each team.
+ * @throws {InvalidSetupError} If the players can't be divided into teams of the given size.
+ * @category Functions
+ * @example
+ * const game = createGame({ players: ['a', 'b', 'c', 'd'], teams: oppositeTeams(4) }); // [[0, 2], [1, 3]]
+ */
+export function oppositeTeams(playerCount: number, teamSize: number = 2): number[][] {
+  if (teamSize < 1 || playerCount % teamSize !== 0 || playerCount / teamSize < 2) {
+    throw new InvalidSetupError("Invalid team size");
+  }
+
+  const teamCount = playerCount / teamSize;
+  return Array.from({ length: teamCount }, (_, team) =>
+    Array.from({ length: teamSize }, (_, seat) => team + seat * teamCount)
+  );
+}